@@ -1,13 +1,85 @@
-import { Stack } from "expo-router";
+import { MaterialIcons } from "@expo/vector-icons";
+import { Stack, router } from "expo-router";
+import { ActivityIndicator, Pressable, StyleSheet, View } from "react-native";
+
+import { AuthProvider, useAuth } from "../contexts/AuthContext";
+
+function RootStack() {
+  const { status, signOut } = useAuth();
+
+  if (status === "loading") {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator size="large" color="#2563eb" />
+      </View>
+    );
+  }
+
+  const signedIn = status === "signedIn";
 
-export default function RootLayout() {
   return (
     <Stack>
-      <Stack.Screen name="index" options={{ title: "Lireo" }} />
-      <Stack.Screen name="stats" options={{ title: "Statistiques" }} />
-      <Stack.Screen name="books/new" options={{ title: "Ajouter un livre" }} />
-      <Stack.Screen name="books/[id]" options={{ title: "Details du livre" }} />
-      <Stack.Screen name="books/[id]/edit" options={{ title: "Modifier le livre" }} />
+      <Stack.Protected guard={signedIn}>
+        <Stack.Screen
+          name="index"
+          options={{
+            title: "Lireo",
+            headerRight: () => (
+              <View style={styles.headerActions}>
+                <Pressable
+                  onPress={() => router.push("/export")}
+                  hitSlop={10}
+                  accessibilityLabel="Exporter la bibliotheque"
+                >
+                  <MaterialIcons name="file-download" size={22} color="#1f2937" />
+                </Pressable>
+                <Pressable
+                  onPress={signOut}
+                  hitSlop={10}
+                  accessibilityLabel="Se deconnecter"
+                >
+                  <MaterialIcons name="logout" size={22} color="#1f2937" />
+                </Pressable>
+              </View>
+            ),
+          }}
+        />
+        <Stack.Screen name="stats" options={{ title: "Statistiques" }} />
+        <Stack.Screen name="notes" options={{ title: "Toutes les notes" }} />
+        <Stack.Screen name="themes" options={{ title: "Themes" }} />
+        <Stack.Screen name="export" options={{ title: "Exporter" }} />
+        <Stack.Screen name="books/new" options={{ title: "Ajouter un livre" }} />
+        <Stack.Screen name="books/scan" options={{ title: "Scanner un ISBN" }} />
+        <Stack.Screen name="books/import" options={{ title: "Importer des livres" }} />
+        <Stack.Screen name="books/[id]" options={{ title: "Details du livre" }} />
+        <Stack.Screen name="books/[id]/edit" options={{ title: "Modifier le livre" }} />
+      </Stack.Protected>
+      <Stack.Protected guard={!signedIn}>
+        <Stack.Screen name="login" options={{ title: "Connexion" }} />
+        <Stack.Screen name="register" options={{ title: "Inscription" }} />
+      </Stack.Protected>
     </Stack>
   );
 }
+
+export default function RootLayout() {
+  return (
+    <AuthProvider>
+      <RootStack />
+    </AuthProvider>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#f5f6fb",
+  },
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 18,
+  },
+});
@@ -1,28 +1,56 @@
 import { Ionicons, MaterialIcons } from "@expo/vector-icons";
 import { router, useFocusEffect, useLocalSearchParams } from "expo-router";
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import {
   Alert,
   GestureResponderEvent,
-  Image,
   Pressable,
   ScrollView,
   StyleSheet,
   Text,
-  TextInput,
   View,
 } from "react-native";
 
+import { BookCover } from "../../components/BookCover";
+import { NotesSection } from "../../components/NotesSection";
+import { OpenLibraryPanel } from "../../components/OpenLibraryPanel";
+import { ReadingProgressSection } from "../../components/ReadingProgressSection";
+import { StatusBadge } from "../../components/StatusBadge";
+import { isCanceledError, isNetworkError } from "../../services/ApiError";
 import {
   Book,
+  BookPayload,
   Note,
-  addBookNote,
+  ReadingStatus,
   deleteBook,
   getBook,
   getBookNotes,
-  updateBook,
+  getBookThemes,
+  getReadingStatus,
+  toBookPayload,
+  updateBookFields,
 } from "../../services/BooksService";
-import { fetchEditionCountByTitle } from "../../services/OpenLibraryService";
+import {
+  isLocalBookId,
+  loadLocalBook,
+  queueDeleteBook,
+  queueUpdateBook,
+} from "../../services/MutationQueue";
+import {
+  loadBooksCache,
+  loadNotesCache,
+  saveBookNotesCache,
+  updateCachedBook,
+} from "../../services/OfflineStorage";
+import {
+  READING_STATUSES,
+  formatStatusDate,
+  getStatusChanges,
+  getStatusLabel,
+} from "../../services/ReadingStatus";
+
+const LOCAL_BOOK_MISSING =
+  "Ce livre n'est plus sur l'appareil. Il a peut-etre deja ete synchronise.";
 
 export default function BookDetails() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -31,39 +59,63 @@ export default function BookDetails() {
   const [book, setBook] = useState<Book | null>(null);
   const [notes, setNotes] = useState<Note[]>([]);
   const [loading, setLoading] = useState(true);
-  const [noteContent, setNoteContent] = useState("");
-  const [noteSubmitting, setNoteSubmitting] = useState(false);
   const [status, setStatus] = useState<string | null>(null);
-  const [openLibraryCount, setOpenLibraryCount] = useState<number | null>(null);
-  const [openLibraryLoading, setOpenLibraryLoading] = useState(false);
-  const [openLibraryError, setOpenLibraryError] = useState<string | null>(null);
 
-  const loadData = useCallback(async () => {
-    if (!bookId) {
-      return;
-    }
+  const loadData = useCallback(
+    async (signal?: AbortSignal) => {
+      if (!bookId) {
+        return;
+      }
 
-    try {
-      setLoading(true);
-      const [bookData, notesData] = await Promise.all([
-        getBook(bookId),
-        getBookNotes(bookId),
-      ]);
-      setBook(bookData);
-      setNotes(notesData);
-    } catch (error) {
-      console.error(error);
-      Alert.alert("Erreur", (error as Error).message, [
-        { text: "OK", onPress: () => router.back() },
-      ]);
-    } finally {
-      setLoading(false);
-    }
-  }, [bookId]);
+      try {
+        setLoading(true);
+        if (isLocalBookId(bookId)) {
+          const local = await loadLocalBook(bookId);
+          if (!local) {
+            throw new Error(LOCAL_BOOK_MISSING);
+          }
+          setBook(local.book);
+          setNotes(local.notes);
+          return;
+        }
+        const [bookData, notesData] = await Promise.all([
+          getBook(bookId, { signal }),
+          getBookNotes(bookId, { signal }),
+        ]);
+        setBook(bookData);
+        setNotes(notesData);
+        void saveBookNotesCache(bookId, notesData);
+      } catch (error) {
+        if (isCanceledError(error)) {
+          return;
+        }
+        console.error(error);
+        const cached = isNetworkError(error) ? await loadBooksCache() : null;
+        const cachedBook = cached?.books.find((item) => item.id === bookId);
+        if (cachedBook) {
+          const cachedNotes = await loadNotesCache();
+          setBook(cachedBook);
+          setNotes(
+            cachedNotes?.notes.filter((note) => note.bookId === bookId) ?? []
+          );
+          setStatus("Connexion indisponible. Affichage des donnees locales.");
+          return;
+        }
+        Alert.alert("Erreur", (error as Error).message, [
+          { text: "OK", onPress: () => router.back() },
+        ]);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [bookId]
+  );
 
   useFocusEffect(
     useCallback(() => {
-      loadData();
+      const controller = new AbortController();
+      loadData(controller.signal);
+      return () => controller.abort();
     }, [loadData])
   );
 
@@ -75,43 +127,28 @@ export default function BookDetails() {
     return () => clearTimeout(timer);
   }, [status]);
 
-  useEffect(() => {
-    const title = book?.name?.trim();
-    if (!title) {
-      setOpenLibraryCount(null);
-      setOpenLibraryError(null);
-      return;
-    }
-
-    let canceled = false;
-    const loadOpenLibrary = async () => {
-      try {
-        setOpenLibraryLoading(true);
-        setOpenLibraryError(null);
-        const count = await fetchEditionCountByTitle(title);
-        if (canceled) {
-          return;
-        }
-        setOpenLibraryCount(count);
-      } catch (error) {
-        console.error(error);
-        if (!canceled) {
-          setOpenLibraryError("Informations OpenLibrary indisponibles.");
-          setOpenLibraryCount(null);
-        }
-      } finally {
-        if (!canceled) {
-          setOpenLibraryLoading(false);
+  const commitUpdate = useCallback(
+    async (current: Book, changes: Partial<BookPayload>) => {
+      if (!isLocalBookId(current.id)) {
+        try {
+          const updated = await updateBookFields(current, changes);
+          setBook(updated);
+          await updateCachedBook(updated);
+          return false;
+        } catch (error) {
+          console.error(error);
+          if (!isNetworkError(error)) {
+            throw error;
+          }
         }
       }
-    };
-
-    loadOpenLibrary();
-
-    return () => {
-      canceled = true;
-    };
-  }, [book?.name]);
+      const payload = toBookPayload(current, changes);
+      await queueUpdateBook(current.id, payload, current);
+      setBook({ ...current, ...payload });
+      return true;
+    },
+    []
+  );
 
   const handleToggleFavorite = useCallback(async () => {
     if (!book) {
@@ -119,55 +156,56 @@ export default function BookDetails() {
     }
 
     try {
-      const updated = await updateBook(book.id, {
-        name: book.name,
-        author: book.author,
-        editor: book.editor,
-        year: book.year ?? undefined,
-        read: book.read ?? false,
-        favorite: !book.favorite,
-        rating: book.rating ?? null,
-        cover: book.cover ?? null,
-      });
-      setBook(updated);
-      setStatus(
-        !book.favorite
-          ? `Livre ajoute aux favoris : ${book.name}`
-          : `Livre retire des favoris : ${book.name}`
-      );
+      const queued = await commitUpdate(book, { favorite: !book.favorite });
+      const message = !book.favorite
+        ? `Livre ajoute aux favoris : ${book.name}`
+        : `Livre retire des favoris : ${book.name}`;
+      setStatus(queued ? `${message} (en attente de synchro)` : message);
     } catch (error) {
-      console.error(error);
       Alert.alert("Erreur", (error as Error).message);
     }
-  }, [book]);
+  }, [book, commitUpdate]);
 
-  const handleToggleRead = useCallback(async () => {
-    if (!book) {
-      return;
-    }
+  const handleProgressUpdate = useCallback(
+    async (changes: Partial<BookPayload>) => {
+      if (!book) {
+        return false;
+      }
+      return commitUpdate(book, changes);
+    },
+    [book, commitUpdate]
+  );
 
-    try {
-      const updated = await updateBook(book.id, {
-        name: book.name,
-        author: book.author,
-        editor: book.editor,
-        year: book.year ?? undefined,
-        read: !book.read,
-        favorite: book.favorite ?? false,
-        rating: book.rating ?? null,
-        cover: book.cover ?? null,
-      });
-      setBook(updated);
-      setStatus(
-        book.read
-          ? `Livre marque comme non lu : ${book.name}`
-          : `Livre marque comme lu : ${book.name}`
-      );
-    } catch (error) {
-      console.error(error);
-      Alert.alert("Erreur", (error as Error).message);
-    }
-  }, [book]);
+  const handleLinkWork = useCallback(
+    async (workKey: string | null) => {
+      if (!book) {
+        return;
+      }
+      const queued = await commitUpdate(book, { openLibraryWorkKey: workKey });
+      const message = workKey
+        ? "Oeuvre OpenLibrary liee au livre."
+        : "Lien OpenLibrary retire.";
+      setStatus(queued ? `${message} (en attente de synchro)` : message);
+    },
+    [book, commitUpdate]
+  );
+
+  const handleChangeStatus = useCallback(
+    async (next: ReadingStatus) => {
+      if (!book || getReadingStatus(book) === next) {
+        return;
+      }
+
+      try {
+        const queued = await commitUpdate(book, getStatusChanges(book, next));
+        const message = `Statut mis a jour : ${getStatusLabel(next)}`;
+        setStatus(queued ? `${message} (en attente de synchro)` : message);
+      } catch (error) {
+        Alert.alert("Erreur", (error as Error).message);
+      }
+    },
+    [book, commitUpdate]
+  );
 
   const handleDelete = useCallback(async () => {
     if (!book) {
@@ -184,12 +222,21 @@ export default function BookDetails() {
           style: "destructive",
           onPress: async () => {
             try {
-              await deleteBook(book.id);
+              if (isLocalBookId(book.id)) {
+                await queueDeleteBook(book.id);
+              } else {
+                await deleteBook(book.id);
+              }
               setStatus(`Livre supprime : ${book.name}`);
               router.replace("/");
             } catch (error) {
               console.error(error);
-              Alert.alert("Erreur", (error as Error).message);
+              if (!isNetworkError(error)) {
+                Alert.alert("Erreur", (error as Error).message);
+                return;
+              }
+              await queueDeleteBook(book.id);
+              router.replace("/");
             }
           },
         },
@@ -207,26 +254,14 @@ export default function BookDetails() {
         return;
       }
       try {
-        const updated = await updateBook(book.id, {
-          name: book.name,
-          author: book.author,
-          editor: book.editor,
-          year: book.year ?? undefined,
-          read: book.read ?? false,
-          favorite: book.favorite ?? false,
-          rating: boundedRating,
-          cover: book.cover ?? null,
-        });
-        setBook(updated);
-        setStatus(
-          `Note mise a jour : ${boundedRating} etoile(s) pour ${book.name}`
-        );
+        const queued = await commitUpdate(book, { rating: boundedRating });
+        const message = `Note mise a jour : ${boundedRating} etoile(s) pour ${book.name}`;
+        setStatus(queued ? `${message} (en attente de synchro)` : message);
       } catch (error) {
-        console.error(error);
         Alert.alert("Erreur", (error as Error).message);
       }
     },
-    [book]
+    [book, commitUpdate]
   );
 
   const renderStars = useCallback(() => {
@@ -265,55 +300,6 @@ export default function BookDetails() {
     );
   }, [book, handleRate]);
 
-  const handleAddNote = useCallback(async () => {
-    if (!book || !bookId) {
-      return;
-    }
-    const trimmed = noteContent.trim();
-    if (!trimmed) {
-      setStatus("Veuillez saisir du texte pour ajouter une note.");
-      return;
-    }
-    try {
-      setNoteSubmitting(true);
-      const created = await addBookNote(bookId, trimmed);
-      setNotes((prev) => [created, ...prev]);
-      setNoteContent("");
-      setStatus("Note ajoutee avec succes.");
-    } catch (error) {
-      console.error(error);
-      Alert.alert("Erreur", (error as Error).message);
-    } finally {
-      setNoteSubmitting(false);
-    }
-  }, [book, bookId, noteContent]);
-
-  const formattedNotes = useMemo(
-    () =>
-      notes.map((note) => ({
-        ...note,
-        formattedDate: new Date(note.dateISO).toLocaleDateString("fr-FR", {
-          day: "2-digit",
-          month: "long",
-          year: "numeric",
-        }),
-      })),
-    [notes]
-  );
-
-  const openLibraryMessage = useMemo(() => {
-    if (openLibraryLoading) {
-      return "Recherche des editions...";
-    }
-    if (openLibraryError) {
-      return openLibraryError;
-    }
-    if (typeof openLibraryCount === "number") {
-      return `Nombre d'editions referencees : ${openLibraryCount}`;
-    }
-    return "Aucune edition referencee pour le moment.";
-  }, [openLibraryCount, openLibraryError, openLibraryLoading]);
-
   if (loading) {
     return (
       <View style={styles.center}>
@@ -330,6 +316,10 @@ export default function BookDetails() {
     );
   }
 
+  const readingStatus = getReadingStatus(book);
+  const startedLabel = formatStatusDate(book.startedAt);
+  const finishedLabel = formatStatusDate(book.finishedAt);
+
   return (
     <View style={styles.screen}>
       <ScrollView contentContainerStyle={styles.container}>
@@ -337,7 +327,7 @@ export default function BookDetails() {
           <View style={styles.headerSection}>
             <View style={styles.coverContainer}>
               {book.cover ? (
-                <Image source={{ uri: book.cover }} style={styles.cover} />
+                <BookCover uri={book.cover} style={styles.cover} />
               ) : (
                 <View style={styles.coverPlaceholder}>
                   <Text style={styles.coverPlaceholderText}>Aucune photo</Text>
@@ -363,29 +353,7 @@ export default function BookDetails() {
                       color={book.favorite ? "#dc2626" : "#9ca3af"}
                     />
                   </Pressable>
-                  <Pressable
-                    onPress={handleToggleRead}
-                    style={({ pressed }) => [
-                      styles.readStatus,
-                      book.read ? styles.readStatusRead : styles.readStatusUnread,
-                      pressed ? styles.readStatusPressed : null,
-                    ]}
-                    hitSlop={10}
-                    accessibilityLabel={
-                      book.read
-                        ? `Marquer ${book.name} comme non lu`
-                        : `Marquer ${book.name} comme lu`
-                    }
-                  >
-                    <MaterialIcons
-                      name={book.read ? "check-circle" : "radio-button-unchecked"}
-                      size={18}
-                      color={book.read ? "#047857" : "#4b5563"}
-                    />
-                    <Text style={styles.readStatusText}>
-                      {book.read ? "Lu" : "A lire"}
-                    </Text>
-                  </Pressable>
+                  <StatusBadge status={readingStatus} large />
                 </View>
               </View>
               {renderStars()}
@@ -396,62 +364,60 @@ export default function BookDetails() {
               {book.year ? (
                 <Text style={styles.meta}>Publication : {book.year}</Text>
               ) : null}
-              <View style={styles.openLibraryBox}>
-                <MaterialIcons name="library-books" size={20} color="#1d4ed8" />
-                <View style={styles.openLibraryTexts}>
-                  <Text style={styles.openLibraryTitle}>OpenLibrary</Text>
-                  <Text
-                    style={
-                      openLibraryError
-                        ? styles.openLibraryErrorText
-                        : styles.openLibrarySubtitle
-                    }
-                  >
-                    {openLibraryMessage}
-                  </Text>
+              {book.isbn ? (
+                <Text style={styles.meta}>ISBN : {book.isbn}</Text>
+              ) : null}
+              {book.totalPages ? (
+                <Text style={styles.meta}>Pages : {book.totalPages}</Text>
+              ) : null}
+              {getBookThemes(book).length > 0 ? (
+                <Text style={styles.meta}>
+                  Themes : {getBookThemes(book).join(", ")}
+                </Text>
+              ) : null}
+              <View style={styles.statusSection}>
+                <Text style={styles.statusSectionTitle}>Statut de lecture</Text>
+                <View style={styles.statusOptions}>
+                  {READING_STATUSES.map(({ value, label }) => (
+                    <StatusBadge
+                      key={value}
+                      status={value}
+                      selected={readingStatus === value}
+                      onPress={() => handleChangeStatus(value)}
+                      accessibilityLabel={`Passer ${book.name} en ${label}`}
+                    />
+                  ))}
                 </View>
+                {startedLabel ? (
+                  <Text style={styles.meta}>Commence le {startedLabel}</Text>
+                ) : null}
+                {finishedLabel ? (
+                  <Text style={styles.meta}>
+                    {readingStatus === "abandoned"
+                      ? "Abandonne le"
+                      : "Termine le"}{" "}
+                    {finishedLabel}
+                  </Text>
+                ) : null}
               </View>
             </View>
           </View>
         </View>
 
-        <View style={styles.notesCard}>
-          <Text style={styles.sectionTitle}>Notes</Text>
-          {formattedNotes.length === 0 ? (
-            <Text style={styles.emptyNotes}>Aucune note pour le moment.</Text>
-          ) : (
-            formattedNotes.map((note) => (
-              <View style={styles.note} key={note.id}>
-                <Text style={styles.noteDate}>{note.formattedDate}</Text>
-                <Text style={styles.noteContent}>{note.content}</Text>
-              </View>
-            ))
-          )}
-          <View style={styles.noteComposer}>
-            <TextInput
-              value={noteContent}
-              onChangeText={setNoteContent}
-              placeholder="Ajouter une note (max 250 caracteres)"
-              placeholderTextColor="#94a3b8"
-              style={styles.noteInput}
-              multiline
-              maxLength={250}
-              editable={!noteSubmitting}
-            />
-            <Pressable
-              onPress={handleAddNote}
-              style={[
-                styles.noteButton,
-                (noteSubmitting || !noteContent.trim()) && styles.noteButtonDisabled,
-              ]}
-              disabled={noteSubmitting || !noteContent.trim()}
-            >
-              <Text style={styles.noteButtonText}>
-                {noteSubmitting ? "Ajout..." : "Ajouter une note"}
-              </Text>
-            </Pressable>
-          </View>
-        </View>
+        <ReadingProgressSection
+          book={book}
+          onUpdate={handleProgressUpdate}
+          onStatus={setStatus}
+        />
+
+        <OpenLibraryPanel book={book} onLinkWork={handleLinkWork} />
+
+        <NotesSection
+          bookId={book.id}
+          notes={notes}
+          onNotesChange={setNotes}
+          onStatus={setStatus}
+        />
 
         <View style={styles.actions}>
           <Pressable
@@ -544,34 +510,6 @@ const styles = StyleSheet.create({
     gap: 10,
     alignSelf: "stretch",
   },
-  openLibraryBox: {
-    flexDirection: "row",
-    alignItems: "flex-start",
-    gap: 12,
-    borderRadius: 12,
-    borderWidth: 1,
-    borderColor: "#bfdbfe",
-    backgroundColor: "#eff6ff",
-    padding: 12,
-    marginTop: 12,
-  },
-  openLibraryTexts: {
-    flex: 1,
-    gap: 4,
-  },
-  openLibraryTitle: {
-    fontSize: 14,
-    fontWeight: "700",
-    color: "#1d4ed8",
-  },
-  openLibrarySubtitle: {
-    fontSize: 13,
-    color: "#1e3a8a",
-  },
-  openLibraryErrorText: {
-    fontSize: 13,
-    color: "#b91c1c",
-  },
   titleBlock: {
     gap: 12,
   },
@@ -602,28 +540,20 @@ const styles = StyleSheet.create({
     fontSize: 15,
     color: "#475569",
   },
-  readStatus: {
-    flexDirection: "row",
-    alignItems: "center",
-    gap: 6,
-    paddingHorizontal: 12,
-    paddingVertical: 6,
-    borderRadius: 999,
-  },
-  readStatusRead: {
-    backgroundColor: "#dcfce7",
-  },
-  readStatusUnread: {
-    backgroundColor: "#e2e8f0",
-  },
-  readStatusPressed: {
-    opacity: 0.85,
+  statusSection: {
+    gap: 8,
+    marginTop: 4,
   },
-  readStatusText: {
-    fontSize: 13,
+  statusSectionTitle: {
+    fontSize: 14,
     fontWeight: "600",
     color: "#1f2937",
   },
+  statusOptions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
   actions: {
     gap: 12,
   },
@@ -659,69 +589,6 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     fontSize: 15,
   },
-  notesCard: {
-    backgroundColor: "#fff",
-    borderRadius: 18,
-    padding: 20,
-    shadowColor: "#0f172a",
-    shadowOpacity: 0.06,
-    shadowRadius: 8,
-    shadowOffset: { width: 0, height: 6 },
-    elevation: 2,
-    gap: 16,
-  },
-  sectionTitle: {
-    fontSize: 20,
-    fontWeight: "700",
-    color: "#111827",
-  },
-  emptyNotes: {
-    fontSize: 15,
-    color: "#6b7280",
-  },
-  note: {
-    borderWidth: 1,
-    borderColor: "#e2e8f0",
-    borderRadius: 12,
-    padding: 12,
-    gap: 6,
-    backgroundColor: "#f8fafc",
-  },
-  noteDate: {
-    fontSize: 12,
-    fontWeight: "600",
-    color: "#64748b",
-  },
-  noteContent: {
-    fontSize: 15,
-    color: "#1f2937",
-  },
-  noteComposer: {
-    gap: 12,
-  },
-  noteInput: {
-    minHeight: 80,
-    borderWidth: 1,
-    borderColor: "#d4d4d8",
-    borderRadius: 12,
-    padding: 12,
-    fontSize: 15,
-    backgroundColor: "#f8fafc",
-    textAlignVertical: "top",
-  },
-  noteButton: {
-    borderRadius: 12,
-    paddingVertical: 12,
-    alignItems: "center",
-    backgroundColor: "#2563eb",
-  },
-  noteButtonDisabled: {
-    backgroundColor: "#93c5fd",
-  },
-  noteButtonText: {
-    color: "#fff",
-    fontWeight: "600",
-  },
   center: {
     flex: 1,
     justifyContent: "center",
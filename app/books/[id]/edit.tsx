@@ -1,17 +1,41 @@
 import { router, useFocusEffect, useLocalSearchParams } from "expo-router";
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { Alert, Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+import { useCallback, useEffect, useState } from "react";
+import { Alert, StyleSheet, Text, View } from "react-native";
 
 import { BookForm } from "../../../components/BookForm";
+import { BookMergeView } from "../../../components/BookMergeView";
+import { NotesSection } from "../../../components/NotesSection";
+import {
+  FieldErrors,
+  ValidationError,
+  isCanceledError,
+  isNetworkError,
+} from "../../../services/ApiError";
 import {
   Book,
+  BookConflictError,
   BookPayload,
   Note,
-  addBookNote,
   getBook,
   getBookNotes,
+  getBookThemes,
+  getReadingStatus,
   updateBook,
 } from "../../../services/BooksService";
+import { withUploadedCover } from "../../../services/CoverService";
+import {
+  isLocalBookId,
+  loadLocalBook,
+  queueUpdateBook,
+} from "../../../services/MutationQueue";
+import {
+  loadBooksCache,
+  loadNotesCache,
+  saveBookNotesCache,
+} from "../../../services/OfflineStorage";
+
+const LOCAL_BOOK_MISSING =
+  "Ce livre n'est plus sur l'appareil. Il a peut-etre deja ete synchronise.";
 
 export default function EditBook() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -21,35 +45,69 @@ export default function EditBook() {
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [notes, setNotes] = useState<Note[]>([]);
-  const [noteContent, setNoteContent] = useState("");
-  const [noteSubmitting, setNoteSubmitting] = useState(false);
   const [status, setStatus] = useState<string | null>(null);
+  const [draft, setDraft] = useState<BookPayload | null>(null);
+  const [serverErrors, setServerErrors] = useState<FieldErrors | null>(null);
+  const [conflict, setConflict] = useState<{
+    base: Book;
+    local: BookPayload;
+    remote: Book;
+  } | null>(null);
 
-  const loadBook = useCallback(async () => {
-    if (!bookId) {
-      return;
-    }
+  const loadBook = useCallback(
+    async (signal?: AbortSignal) => {
+      if (!bookId) {
+        return;
+      }
 
-    try {
-      const [bookData, notesData] = await Promise.all([
-        getBook(bookId),
-        getBookNotes(bookId),
-      ]);
-      setBook(bookData);
-      setNotes(notesData);
-    } catch (error) {
-      console.error(error);
-      Alert.alert("Erreur", (error as Error).message, [
-        { text: "OK", onPress: () => router.back() },
-      ]);
-    } finally {
-      setLoading(false);
-    }
-  }, [bookId]);
+      try {
+        if (isLocalBookId(bookId)) {
+          const local = await loadLocalBook(bookId);
+          if (!local) {
+            throw new Error(LOCAL_BOOK_MISSING);
+          }
+          setBook(local.book);
+          setNotes(local.notes);
+          return;
+        }
+        const [bookData, notesData] = await Promise.all([
+          getBook(bookId, { signal }),
+          getBookNotes(bookId, { signal }),
+        ]);
+        setBook(bookData);
+        setNotes(notesData);
+        void saveBookNotesCache(bookId, notesData);
+      } catch (error) {
+        if (isCanceledError(error)) {
+          return;
+        }
+        console.error(error);
+        const cached = isNetworkError(error) ? await loadBooksCache() : null;
+        const cachedBook = cached?.books.find((item) => item.id === bookId);
+        if (cachedBook) {
+          const cachedNotes = await loadNotesCache();
+          setBook(cachedBook);
+          setNotes(
+            cachedNotes?.notes.filter((note) => note.bookId === bookId) ?? []
+          );
+          setStatus("Connexion indisponible. Affichage des donnees locales.");
+          return;
+        }
+        Alert.alert("Erreur", (error as Error).message, [
+          { text: "OK", onPress: () => router.back() },
+        ]);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [bookId]
+  );
 
   useFocusEffect(
     useCallback(() => {
-      loadBook();
+      const controller = new AbortController();
+      loadBook(controller.signal);
+      return () => controller.abort();
     }, [loadBook])
   );
 
@@ -61,59 +119,76 @@ export default function EditBook() {
     return () => clearTimeout(timer);
   }, [status]);
 
-  const handleSubmit = async (values: BookPayload) => {
+  const saveBook = async (values: BookPayload, base: Book) => {
     if (!bookId) {
       return;
     }
 
     try {
       setSubmitting(true);
-      await updateBook(bookId, values);
+      if (isLocalBookId(bookId)) {
+        await queueUpdateBook(bookId, values);
+      } else {
+        await updateBook(
+          bookId,
+          await withUploadedCover(values),
+          base
+        );
+      }
+      setConflict(null);
+      setServerErrors(null);
       setStatus("Livre mis a jour avec succes.");
       router.back();
     } catch (error) {
       console.error(error);
-      Alert.alert("Erreur", (error as Error).message);
+      if (error instanceof BookConflictError) {
+        setConflict({ base, local: values, remote: error.remote });
+        return;
+      }
+      if (error instanceof ValidationError) {
+        setConflict(null);
+        setDraft(values);
+        setServerErrors(error.fieldErrors);
+        if (Object.keys(error.fieldErrors).length === 0) {
+          Alert.alert("Erreur", error.message);
+        }
+        return;
+      }
+      if (!isNetworkError(error)) {
+        Alert.alert("Erreur", (error as Error).message);
+        return;
+      }
+      await queueUpdateBook(bookId, values, base);
+      Alert.alert(
+        "Hors ligne",
+        "Les modifications seront synchronisees au retour du reseau.",
+        [{ text: "OK", onPress: () => router.back() }]
+      );
     } finally {
       setSubmitting(false);
     }
   };
 
-  const handleAddNote = useCallback(async () => {
-    if (!bookId) {
-      return;
-    }
-    const trimmed = noteContent.trim();
-    if (!trimmed) {
-      setStatus("Veuillez saisir du texte pour ajouter une note.");
-      return;
+  const handleSubmit = async (values: BookPayload) => {
+    if (book) {
+      await saveBook(values, book);
     }
-    try {
-      setNoteSubmitting(true);
-      const created = await addBookNote(bookId, trimmed);
-      setNotes((prev) => [created, ...prev]);
-      setNoteContent("");
-      setStatus("Note ajoutee avec succes.");
-    } catch (error) {
-      console.error(error);
-      Alert.alert("Erreur", (error as Error).message);
-    } finally {
-      setNoteSubmitting(false);
+  };
+
+  const handleResolveConflict = async (values: BookPayload) => {
+    if (conflict) {
+      await saveBook(values, conflict.remote);
     }
-  }, [bookId, noteContent]);
+  };
 
-  const formattedNotes = useMemo(
-    () =>
-      notes.map((note) => ({
-        ...note,
-        formattedDate: new Date(note.dateISO).toLocaleDateString("fr-FR", {
-          day: "2-digit",
-          month: "long",
-          year: "numeric",
-        }),
-      })),
-    [notes]
-  );
+  const handleCancelConflict = () => {
+    if (!conflict) {
+      return;
+    }
+    setBook(conflict.remote);
+    setDraft(conflict.local);
+    setConflict(null);
+  };
 
   if (loading) {
     return (
@@ -131,60 +206,55 @@ export default function EditBook() {
     );
   }
 
+  if (conflict) {
+    return (
+      <BookMergeView
+        base={conflict.base}
+        local={conflict.local}
+        remote={conflict.remote}
+        onResolve={handleResolveConflict}
+        onCancel={handleCancelConflict}
+        submitting={submitting}
+      />
+    );
+  }
+
   return (
     <View style={styles.screen}>
       <BookForm
-      initialValues={{
-        name: book.name,
-        author: book.author,
-        editor: book.editor,
-        year: book.year ?? undefined,
-        read: book.read ?? false,
-        favorite: book.favorite ?? false,
-        rating: book.rating ?? 0,
-        cover: book.cover ?? null,
-      }}
+        key={`${book.id}-${book.version ?? book.updatedAt ?? ""}`}
+        initialValues={
+          draft ?? {
+            name: book.name,
+            author: book.author,
+            editor: book.editor,
+            year: book.year ?? undefined,
+            read: book.read ?? false,
+            status: getReadingStatus(book),
+            startedAt: book.startedAt ?? null,
+            finishedAt: book.finishedAt ?? null,
+            favorite: book.favorite ?? false,
+            rating: book.rating ?? 0,
+            cover: book.cover ?? null,
+            themes: getBookThemes(book),
+            isbn: book.isbn ?? null,
+            openLibraryWorkKey: book.openLibraryWorkKey ?? null,
+            totalPages: book.totalPages ?? null,
+            currentPage: book.currentPage ?? null,
+          }
+        }
         onSubmit={handleSubmit}
         submitting={submitting}
+        serverErrors={serverErrors}
         submitLabel="Enregistrer les modifications"
       >
-        <View style={styles.notesCard}>
-          <Text style={styles.sectionTitle}>Notes</Text>
-          {formattedNotes.length === 0 ? (
-            <Text style={styles.emptyNotes}>Aucune note pour le moment.</Text>
-          ) : (
-            formattedNotes.map((note) => (
-              <View style={styles.note} key={note.id}>
-                <Text style={styles.noteDate}>{note.formattedDate}</Text>
-                <Text style={styles.noteContent}>{note.content}</Text>
-              </View>
-            ))
-          )}
-          <View style={styles.noteComposer}>
-            <TextInput
-              value={noteContent}
-              onChangeText={setNoteContent}
-              placeholder="Ajouter une note pour ce livre"
-              placeholderTextColor="#94a3b8"
-              style={styles.noteInput}
-              multiline
-              maxLength={250}
-              editable={!noteSubmitting}
-            />
-            <Pressable
-              onPress={handleAddNote}
-              style={[
-                styles.noteButton,
-                (noteSubmitting || !noteContent.trim()) && styles.noteButtonDisabled,
-              ]}
-              disabled={noteSubmitting || !noteContent.trim()}
-            >
-              <Text style={styles.noteButtonText}>
-                {noteSubmitting ? "Ajout..." : "Ajouter une note"}
-              </Text>
-            </Pressable>
-          </View>
-        </View>
+        <NotesSection
+          bookId={book.id}
+          notes={notes}
+          onNotesChange={setNotes}
+          onStatus={setStatus}
+          placeholder="Ajouter une note pour ce livre"
+        />
       </BookForm>
       {status ? (
         <View style={styles.statusBanner}>
@@ -211,69 +281,6 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: "#475569",
   },
-  notesCard: {
-    backgroundColor: "#ffffff",
-    borderRadius: 16,
-    padding: 20,
-    shadowColor: "#0f172a",
-    shadowOpacity: 0.05,
-    shadowRadius: 8,
-    shadowOffset: { width: 0, height: 6 },
-    elevation: 2,
-    gap: 16,
-  },
-  sectionTitle: {
-    fontSize: 20,
-    fontWeight: "700",
-    color: "#111827",
-  },
-  emptyNotes: {
-    fontSize: 15,
-    color: "#6b7280",
-  },
-  note: {
-    borderWidth: 1,
-    borderColor: "#e2e8f0",
-    borderRadius: 12,
-    padding: 12,
-    gap: 6,
-    backgroundColor: "#f8fafc",
-  },
-  noteDate: {
-    fontSize: 12,
-    fontWeight: "600",
-    color: "#64748b",
-  },
-  noteContent: {
-    fontSize: 15,
-    color: "#1f2937",
-  },
-  noteComposer: {
-    gap: 12,
-  },
-  noteInput: {
-    minHeight: 80,
-    borderWidth: 1,
-    borderColor: "#d4d4d8",
-    borderRadius: 12,
-    padding: 12,
-    fontSize: 15,
-    backgroundColor: "#f8fafc",
-    textAlignVertical: "top",
-  },
-  noteButton: {
-    borderRadius: 12,
-    paddingVertical: 12,
-    alignItems: "center",
-    backgroundColor: "#2563eb",
-  },
-  noteButtonDisabled: {
-    backgroundColor: "#93c5fd",
-  },
-  noteButtonText: {
-    color: "#fff",
-    fontWeight: "600",
-  },
   statusBanner: {
     position: "absolute",
     bottom: 24,
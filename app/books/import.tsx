@@ -0,0 +1,649 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import * as DocumentPicker from "expo-document-picker";
+import { File } from "expo-file-system";
+import { router } from "expo-router";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  View,
+} from "react-native";
+
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  IMPORT_FORMATS,
+  ImportField,
+  ImportFormat,
+  ImportReport,
+  ImportRow,
+  buildImportRows,
+  detectImportFormat,
+  getColumnMapping,
+  importBooks,
+  loadLibraryForImport,
+} from "../../services/BookImport";
+import { Book } from "../../services/BooksService";
+import { CsvTable, parseCsvTable } from "../../services/Csv";
+import { getStatusLabel } from "../../services/ReadingStatus";
+
+const IMPORT_HINT =
+  "Exportez votre bibliotheque depuis Goodreads ou Babelio au format CSV, ou utilisez n'importe quel tableur : vous choisirez ensuite les colonnes.";
+const OFFLINE_HINT =
+  "Hors ligne : les doublons sont recherches dans les livres de l'appareil et les livres seront ajoutes au retour du reseau.";
+
+const PARTIAL_HINT =
+  "Seule une partie de la bibliotheque est enregistree sur l'appareil : certains doublons peuvent passer inapercus.";
+
+type ImportFile = {
+  name: string;
+  table: CsvTable;
+};
+
+function isImportable(row: ImportRow, includeDuplicates: boolean) {
+  return row.errors.length === 0 && (includeDuplicates || !row.duplicate);
+}
+
+export default function ImportBooks() {
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [format, setFormat] = useState<ImportFormat>("generic");
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [showMapping, setShowMapping] = useState(false);
+  const [library, setLibrary] = useState<Book[]>([]);
+  const [offline, setOffline] = useState(false);
+  const [partial, setPartial] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const rows = useMemo(
+    () => (file ? buildImportRows(file.table, mapping, library) : []),
+    [file, library, mapping]
+  );
+
+  const counts = useMemo(
+    () => ({
+      invalid: rows.filter((row) => row.errors.length > 0).length,
+      duplicates: rows.filter((row) => !row.errors.length && row.duplicate)
+        .length,
+      importable: rows.filter((row) => isImportable(row, includeDuplicates))
+        .length,
+    }),
+    [includeDuplicates, rows]
+  );
+
+  const importing = progress !== null && report === null;
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: [
+          "text/csv",
+          "text/comma-separated-values",
+          "text/plain",
+          "application/vnd.ms-excel",
+        ],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets[0]) {
+        return;
+      }
+      setLoading(true);
+      const asset = result.assets[0];
+      const table = parseCsvTable(await new File(asset.uri).text());
+      if (table.headers.length === 0 || table.rows.length === 0) {
+        Alert.alert("Fichier vide", "Aucune ligne a importer dans ce fichier.");
+        return;
+      }
+      const detected = detectImportFormat(table.headers);
+      const existing = await loadLibraryForImport();
+      setLibrary(existing.books);
+      setOffline(existing.offline);
+      setPartial(existing.partial);
+      setFormat(detected);
+      setMapping(getColumnMapping(table.headers, detected));
+      setShowMapping(detected === "generic");
+      setIncludeDuplicates(false);
+      setProgress(null);
+      setReport(null);
+      setFile({ name: asset.name, table });
+    } catch (error) {
+      console.error(error);
+      Alert.alert("Erreur", (error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleChangeFormat = (next: ImportFormat) => {
+    if (!file) {
+      return;
+    }
+    setFormat(next);
+    setMapping(getColumnMapping(file.table.headers, next));
+  };
+
+  const handleChangeColumn = (field: ImportField, index: number | null) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (index === null) {
+        delete next[field];
+      } else {
+        next[field] = index;
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    const selected = rows.filter((row) => isImportable(row, includeDuplicates));
+    if (selected.length === 0) {
+      return;
+    }
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setReport(null);
+    setProgress({ done: 0, total: selected.length });
+    try {
+      const result = await importBooks(selected, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setReport(result);
+    } catch (error) {
+      console.error(error);
+      setProgress(null);
+      Alert.alert("Erreur", (error as Error).message);
+    } finally {
+      controllerRef.current = null;
+    }
+  };
+
+  const renderMapping = () => {
+    if (!file) {
+      return null;
+    }
+    return (
+      <View style={styles.card}>
+        <Pressable
+          onPress={() => setShowMapping((value) => !value)}
+          style={styles.cardHeader}
+          accessibilityRole="button"
+        >
+          <Text style={styles.cardTitle}>Colonnes</Text>
+          <MaterialIcons
+            name={showMapping ? "expand-less" : "expand-more"}
+            size={22}
+            color="#475569"
+          />
+        </Pressable>
+        {showMapping
+          ? IMPORT_FIELDS.map(({ field, label, required }) => (
+              <View key={field} style={styles.mappingRow}>
+                <Text style={styles.mappingLabel}>
+                  {label}
+                  {required ? " *" : ""}
+                </Text>
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  contentContainerStyle={styles.mappingChips}
+                >
+                  <Pressable
+                    onPress={() => handleChangeColumn(field, null)}
+                    style={[
+                      styles.chip,
+                      mapping[field] === undefined ? styles.chipActive : null,
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        mapping[field] === undefined
+                          ? styles.chipTextActive
+                          : null,
+                      ]}
+                    >
+                      Ignorer
+                    </Text>
+                  </Pressable>
+                  {file.table.headers.map((header, index) => (
+                    <Pressable
+                      key={`${header}-${index}`}
+                      onPress={() => handleChangeColumn(field, index)}
+                      style={[
+                        styles.chip,
+                        mapping[field] === index ? styles.chipActive : null,
+                      ]}
+                    >
+                      <Text
+                        style={[
+                          styles.chipText,
+                          mapping[field] === index
+                            ? styles.chipTextActive
+                            : null,
+                        ]}
+                      >
+                        {header || `Colonne ${index + 1}`}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </ScrollView>
+              </View>
+            ))
+          : null}
+      </View>
+    );
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <View style={styles.card}>
+        <Text style={styles.hint}>{IMPORT_HINT}</Text>
+        <Pressable
+          onPress={handlePickFile}
+          disabled={loading || importing}
+          style={[
+            styles.button,
+            (loading || importing) && styles.buttonDisabled,
+          ]}
+          accessibilityRole="button"
+        >
+          {loading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <>
+              <MaterialIcons name="upload-file" size={18} color="#fff" />
+              <Text style={styles.buttonText}>
+                {file ? "Choisir un autre fichier" : "Choisir un fichier CSV"}
+              </Text>
+            </>
+          )}
+        </Pressable>
+        {file ? (
+          <Text style={styles.fileName} numberOfLines={1}>
+            {file.name} · {file.table.rows.length} ligne(s)
+          </Text>
+        ) : null}
+      </View>
+
+      {file ? (
+        <>
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Format</Text>
+            <View style={styles.chipRow}>
+              {IMPORT_FORMATS.map((option) => (
+                <Pressable
+                  key={option.value}
+                  onPress={() => handleChangeFormat(option.value)}
+                  disabled={importing}
+                  style={[
+                    styles.chip,
+                    format === option.value ? styles.chipActive : null,
+                  ]}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      format === option.value ? styles.chipTextActive : null,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+          {renderMapping()}
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Apercu</Text>
+            {offline ? <Text style={styles.hint}>{OFFLINE_HINT}</Text> : null}
+            {partial ? <Text style={styles.hint}>{PARTIAL_HINT}</Text> : null}
+            <Text style={styles.summary}>
+              {counts.importable} a importer · {counts.duplicates} doublon(s) ·{" "}
+              {counts.invalid} ligne(s) invalide(s)
+            </Text>
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>
+                Importer aussi les doublons
+              </Text>
+              <Switch
+                value={includeDuplicates}
+                onValueChange={setIncludeDuplicates}
+                disabled={importing}
+              />
+            </View>
+          </View>
+        </>
+      ) : null}
+    </View>
+  );
+
+  const renderFooter = () => {
+    if (!file) {
+      return null;
+    }
+    if (report) {
+      return (
+        <View style={[styles.card, styles.footer]}>
+          <Text style={styles.cardTitle}>Rapport</Text>
+          <Text style={styles.reportLine}>
+            {report.created} livre(s) ajoute(s)
+          </Text>
+          {report.queued > 0 ? (
+            <Text style={styles.reportLine}>
+              {report.queued} livre(s) en attente de synchro
+            </Text>
+          ) : null}
+          {report.canceled > 0 ? (
+            <Text style={styles.reportLine}>
+              {report.canceled} livre(s) non importe(s) (annule)
+            </Text>
+          ) : null}
+          {report.failed.map((failure) => (
+            <Text key={failure.line} style={styles.errorText}>
+              Ligne {failure.line} ({failure.name}) : {failure.message}
+            </Text>
+          ))}
+          <Pressable
+            onPress={() => router.dismissTo("/")}
+            style={styles.button}
+            accessibilityRole="button"
+          >
+            <Text style={styles.buttonText}>Voir la bibliotheque</Text>
+          </Pressable>
+        </View>
+      );
+    }
+    if (importing && progress) {
+      return (
+        <View style={[styles.card, styles.footer]}>
+          <Text style={styles.summary}>
+            Import en cours : {progress.done} / {progress.total}
+          </Text>
+          <View style={styles.progressTrack}>
+            <View
+              style={[
+                styles.progressFill,
+                {
+                  width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%`,
+                },
+              ]}
+            />
+          </View>
+          <Pressable
+            onPress={() => controllerRef.current?.abort()}
+            style={styles.secondaryButton}
+            accessibilityRole="button"
+          >
+            <Text style={styles.secondaryButtonText}>Arreter</Text>
+          </Pressable>
+        </View>
+      );
+    }
+    return (
+      <View style={styles.footer}>
+        <Pressable
+          onPress={handleImport}
+          disabled={counts.importable === 0}
+          style={[
+            styles.button,
+            counts.importable === 0 && styles.buttonDisabled,
+          ]}
+          accessibilityRole="button"
+        >
+          <Text style={styles.buttonText}>
+            Importer {counts.importable} livre(s)
+          </Text>
+        </Pressable>
+      </View>
+    );
+  };
+
+  const renderRow = ({ item }: { item: ImportRow }) => {
+    const included = isImportable(item, includeDuplicates);
+    return (
+      <View style={[styles.row, included ? null : styles.rowSkipped]}>
+        <View style={styles.rowHeader}>
+          <Text style={styles.rowLine}>L{item.line}</Text>
+          <Text style={styles.rowTitle} numberOfLines={1}>
+            {item.payload.name || "Sans titre"}
+          </Text>
+          <MaterialIcons
+            name={
+              item.errors.length
+                ? "error-outline"
+                : item.duplicate
+                  ? "content-copy"
+                  : "check-circle-outline"
+            }
+            size={18}
+            color={
+              item.errors.length
+                ? "#b91c1c"
+                : item.duplicate
+                  ? "#b45309"
+                  : "#16a34a"
+            }
+          />
+        </View>
+        <Text style={styles.rowMeta} numberOfLines={1}>
+          {[
+            item.payload.author,
+            item.payload.year,
+            item.payload.status ? getStatusLabel(item.payload.status) : null,
+            item.payload.rating ? `${item.payload.rating}/5` : null,
+          ]
+            .filter(Boolean)
+            .join(" · ")}
+        </Text>
+        {item.errors.map((error) => (
+          <Text key={error} style={styles.errorText}>
+            {error}
+          </Text>
+        ))}
+        {!item.errors.length && item.duplicate ? (
+          <Text style={styles.duplicateText}>{item.duplicate}</Text>
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <FlatList
+      style={styles.screen}
+      contentContainerStyle={styles.content}
+      data={rows}
+      keyExtractor={(item) => String(item.line)}
+      renderItem={renderRow}
+      ListHeaderComponent={renderHeader()}
+      ListFooterComponent={renderFooter()}
+      initialNumToRender={20}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: "#f5f6fb",
+  },
+  content: {
+    padding: 16,
+    gap: 8,
+  },
+  header: {
+    gap: 12,
+    marginBottom: 4,
+  },
+  footer: {
+    marginTop: 8,
+  },
+  card: {
+    backgroundColor: "#fff",
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  hint: {
+    fontSize: 14,
+    color: "#475569",
+  },
+  fileName: {
+    fontSize: 13,
+    color: "#64748b",
+  },
+  summary: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    backgroundColor: "#fff",
+  },
+  chipActive: {
+    borderColor: "#2563eb",
+    backgroundColor: "#dbeafe",
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#475569",
+  },
+  chipTextActive: {
+    color: "#1d4ed8",
+  },
+  mappingRow: {
+    gap: 6,
+  },
+  mappingChips: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  mappingLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  switchLabel: {
+    fontSize: 14,
+    color: "#1f2937",
+  },
+  row: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    padding: 12,
+    gap: 4,
+  },
+  rowSkipped: {
+    opacity: 0.6,
+  },
+  rowHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  rowLine: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#94a3b8",
+  },
+  rowTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: "#64748b",
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#b91c1c",
+  },
+  duplicateText: {
+    fontSize: 13,
+    color: "#b45309",
+  },
+  reportLine: {
+    fontSize: 15,
+    color: "#1f2937",
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 999,
+    backgroundColor: "#e2e8f0",
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    backgroundColor: "#2563eb",
+  },
+  button: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: "#2563eb",
+  },
+  buttonDisabled: {
+    backgroundColor: "#93c5fd",
+  },
+  buttonText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    alignItems: "center",
+    borderRadius: 10,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+  },
+  secondaryButtonText: {
+    color: "#475569",
+    fontWeight: "600",
+  },
+});
@@ -1,33 +1,135 @@
-import { router } from "expo-router";
-import { useState } from "react";
-import { Alert } from "react-native";
+import { MaterialIcons } from "@expo/vector-icons";
+import { Stack, router, useLocalSearchParams } from "expo-router";
+import { useMemo, useState } from "react";
+import { Alert, Pressable, StyleSheet, View } from "react-native";
 
 import { BookForm } from "../../components/BookForm";
+import {
+  FieldErrors,
+  TimeoutError,
+  ValidationError,
+  isNetworkError,
+} from "../../services/ApiError";
 import { BookPayload, createBook } from "../../services/BooksService";
+import { withUploadedCover } from "../../services/CoverService";
+import { queueCreateBook } from "../../services/MutationQueue";
+
+const TIMEOUT_MESSAGE =
+  "Le serveur n'a pas repondu a temps. Verifiez dans la bibliotheque si le livre a ete ajoute avant de reessayer.";
+
+type PrefillParams = {
+  isbn?: string;
+  name?: string;
+  author?: string;
+  editor?: string;
+  year?: string;
+  cover?: string;
+};
 
 export default function NewBook() {
+  const params = useLocalSearchParams<PrefillParams>();
   const [submitting, setSubmitting] = useState(false);
+  const [serverErrors, setServerErrors] = useState<FieldErrors | null>(null);
+
+  const initialValues = useMemo<Partial<BookPayload>>(() => {
+    const year = Number(params.year);
+    return {
+      isbn: params.isbn || null,
+      name: params.name || undefined,
+      author: params.author || undefined,
+      editor: params.editor || undefined,
+      year: Number.isInteger(year) && year > 0 ? year : undefined,
+      cover: params.cover || null,
+    };
+  }, [
+    params.author,
+    params.cover,
+    params.editor,
+    params.isbn,
+    params.name,
+    params.year,
+  ]);
 
   const handleSubmit = async (values: BookPayload) => {
     try {
       setSubmitting(true);
-      await createBook(values);
+      await createBook(await withUploadedCover(values));
       Alert.alert("Succès", "Livre ajouté avec succès.", [
         { text: "OK", onPress: () => router.back() },
       ]);
     } catch (error) {
       console.error(error);
-      Alert.alert("Erreur", (error as Error).message);
+      if (error instanceof ValidationError) {
+        setServerErrors(error.fieldErrors);
+        if (Object.keys(error.fieldErrors).length === 0) {
+          Alert.alert("Erreur", error.message);
+        }
+        return;
+      }
+      if (error instanceof TimeoutError) {
+        // The server may have created the book: queueing it would duplicate it.
+        Alert.alert("Erreur", TIMEOUT_MESSAGE);
+        return;
+      }
+      if (!isNetworkError(error)) {
+        Alert.alert("Erreur", (error as Error).message);
+        return;
+      }
+      await queueCreateBook(values);
+      Alert.alert(
+        "Hors ligne",
+        "Le livre sera ajouté automatiquement au retour du réseau.",
+        [{ text: "OK", onPress: () => router.back() }]
+      );
     } finally {
       setSubmitting(false);
     }
   };
 
   return (
-    <BookForm
-      onSubmit={handleSubmit}
-      submitting={submitting}
-      submitLabel="Créer un livre"
-    />
+    <>
+      <Stack.Screen
+        options={{
+          headerRight: () => (
+            <View style={styles.headerActions}>
+              <Pressable
+                onPress={() => router.push("/books/import")}
+                hitSlop={10}
+                accessibilityLabel="Importer un fichier CSV"
+              >
+                <MaterialIcons name="upload-file" size={22} color="#1f2937" />
+              </Pressable>
+              <Pressable
+                onPress={() => router.push("/books/scan")}
+                hitSlop={10}
+                accessibilityLabel="Scanner un ISBN"
+              >
+                <MaterialIcons
+                  name="qr-code-scanner"
+                  size={22}
+                  color="#1f2937"
+                />
+              </Pressable>
+            </View>
+          ),
+        }}
+      />
+      <BookForm
+        key={params.isbn ?? "empty"}
+        initialValues={initialValues}
+        onSubmit={handleSubmit}
+        submitting={submitting}
+        submitLabel="Créer un livre"
+        serverErrors={serverErrors}
+      />
+    </>
   );
 }
+
+const styles = StyleSheet.create({
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 18,
+  },
+});
@@ -0,0 +1,256 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import {
+  BarcodeScanningResult,
+  CameraView,
+  useCameraPermissions,
+} from "expo-camera";
+import { router } from "expo-router";
+import { useCallback, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import {
+  IsbnBook,
+  fetchBookByIsbn,
+  normalizeIsbn,
+} from "../../services/OpenLibraryService";
+
+const SCAN_HINT =
+  "Placez le code-barres du livre dans le cadre, ou saisissez l'ISBN ci-dessous.";
+
+function openNewBook(isbn: string, book: IsbnBook | null) {
+  router.dismissTo({
+    pathname: "/books/new",
+    params: book
+      ? {
+          isbn,
+          name: book.title,
+          author: book.authors.join(", "),
+          editor: book.publishers[0] ?? "",
+          year: book.year ? String(book.year) : "",
+          cover: book.coverUrl ?? "",
+        }
+      : { isbn },
+  });
+}
+
+export default function ScanIsbn() {
+  const [permission, requestPermission] = useCameraPermissions();
+  const [manualIsbn, setManualIsbn] = useState("");
+  const [searching, setSearching] = useState(false);
+  const [lastIsbn, setLastIsbn] = useState<string | null>(null);
+  const busyRef = useRef(false);
+
+  const lookupIsbn = useCallback(async (value: string) => {
+    if (busyRef.current) {
+      return;
+    }
+    const isbn = normalizeIsbn(value);
+    if (!isbn) {
+      Alert.alert("ISBN invalide", "Verifiez le numero saisi ou scanne.");
+      return;
+    }
+    busyRef.current = true;
+    setLastIsbn(isbn);
+    setSearching(true);
+    try {
+      const book = await fetchBookByIsbn(isbn);
+      if (book) {
+        openNewBook(isbn, book);
+        return;
+      }
+      Alert.alert(
+        "Livre introuvable",
+        `Aucun livre trouve pour l'ISBN ${isbn}.`,
+        [
+          {
+            text: "Reessayer",
+            style: "cancel",
+            onPress: () => {
+              busyRef.current = false;
+            },
+          },
+          { text: "Saisir a la main", onPress: () => openNewBook(isbn, null) },
+        ]
+      );
+    } catch (error) {
+      console.error(error);
+      Alert.alert("Erreur", (error as Error).message, [
+        {
+          text: "OK",
+          onPress: () => {
+            busyRef.current = false;
+          },
+        },
+      ]);
+    } finally {
+      setSearching(false);
+    }
+  }, []);
+
+  const handleBarcodeScanned = useCallback(
+    (result: BarcodeScanningResult) => {
+      if (!busyRef.current && normalizeIsbn(result.data)) {
+        lookupIsbn(result.data);
+      }
+    },
+    [lookupIsbn]
+  );
+
+  const renderCamera = () => {
+    if (!permission) {
+      return <ActivityIndicator size="large" color="#2563eb" />;
+    }
+    if (!permission.granted) {
+      return (
+        <View style={styles.permission}>
+          <MaterialIcons name="photo-camera" size={32} color="#475569" />
+          <Text style={styles.permissionText}>
+            {"Autorisez l'acces a la camera pour scanner le code-barres."}
+          </Text>
+          {permission.canAskAgain ? (
+            <Pressable onPress={requestPermission} style={styles.button}>
+              <Text style={styles.buttonText}>Autoriser la camera</Text>
+            </Pressable>
+          ) : null}
+        </View>
+      );
+    }
+    return (
+      <CameraView
+        style={styles.camera}
+        facing="back"
+        barcodeScannerSettings={{ barcodeTypes: ["ean13"] }}
+        onBarcodeScanned={searching ? undefined : handleBarcodeScanned}
+      />
+    );
+  };
+
+  return (
+    <View style={styles.screen}>
+      <View style={styles.cameraContainer}>{renderCamera()}</View>
+      <View style={styles.panel}>
+        {searching ? (
+          <View style={styles.searching}>
+            <ActivityIndicator color="#2563eb" />
+            <Text style={styles.searchingText}>
+              {`Recherche de l'ISBN ${lastIsbn}...`}
+            </Text>
+          </View>
+        ) : (
+          <Text style={styles.hint}>
+            {SCAN_HINT}
+          </Text>
+        )}
+        <View style={styles.manualRow}>
+          <TextInput
+            value={manualIsbn}
+            onChangeText={setManualIsbn}
+            onSubmitEditing={() => lookupIsbn(manualIsbn)}
+            style={styles.input}
+            placeholder="ISBN (10 ou 13 chiffres)"
+            placeholderTextColor="#94a3b8"
+            keyboardType="numeric"
+            autoCorrect={false}
+            editable={!searching}
+          />
+          <Pressable
+            onPress={() => lookupIsbn(manualIsbn)}
+            style={[
+              styles.button,
+              (searching || !manualIsbn.trim()) && styles.buttonDisabled,
+            ]}
+            disabled={searching || !manualIsbn.trim()}
+          >
+            <Text style={styles.buttonText}>Rechercher</Text>
+          </Pressable>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: "#f5f6fb",
+  },
+  cameraContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#0f172a",
+  },
+  camera: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  permission: {
+    alignItems: "center",
+    gap: 12,
+    padding: 24,
+    margin: 24,
+    borderRadius: 16,
+    backgroundColor: "#fff",
+  },
+  permissionText: {
+    textAlign: "center",
+    fontSize: 15,
+    color: "#475569",
+  },
+  panel: {
+    padding: 16,
+    gap: 12,
+    backgroundColor: "#fff",
+    borderTopWidth: 1,
+    borderTopColor: "#e2e8f0",
+  },
+  hint: {
+    fontSize: 14,
+    color: "#475569",
+  },
+  searching: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  searchingText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1d4ed8",
+  },
+  manualRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#d4d4d8",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    backgroundColor: "#f8fafc",
+  },
+  button: {
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: "#2563eb",
+  },
+  buttonDisabled: {
+    backgroundColor: "#93c5fd",
+  },
+  buttonText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+});
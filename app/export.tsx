@@ -0,0 +1,277 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import { useFocusEffect } from "expo-router";
+import { useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import { isCanceledError } from "../services/ApiError";
+import {
+  EXPORT_FORMATS,
+  ExportData,
+  ExportFormat,
+  loadExportData,
+  saveExport,
+  shareExport,
+} from "../services/LibraryExport";
+
+const OFFLINE_HINT =
+  "Hors ligne : l'export contient les livres et les notes enregistres sur l'appareil.";
+
+const PARTIAL_HINT =
+  "Seule une partie de la bibliotheque est enregistree sur l'appareil : l'export sera incomplet.";
+
+const EXPORT_ERROR = "Impossible de preparer l'export :";
+
+type ExportAction = "share" | "save";
+
+export default function ExportLibrary() {
+  const [data, setData] = useState<ExportData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [format, setFormat] = useState<ExportFormat>("json");
+  const [busy, setBusy] = useState<ExportAction | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      const controller = new AbortController();
+      (async () => {
+        try {
+          setLoading(true);
+          setError(null);
+          setData(await loadExportData(controller.signal));
+        } catch (fetchError) {
+          if (isCanceledError(fetchError)) {
+            return;
+          }
+          console.error(fetchError);
+          setError((fetchError as Error).message);
+        } finally {
+          setLoading(false);
+        }
+      })();
+      return () => controller.abort();
+    }, [])
+  );
+
+  const handleExport = async (action: ExportAction) => {
+    if (!data) {
+      return;
+    }
+    try {
+      setBusy(action);
+      if (action === "share") {
+        await shareExport(format, data);
+        return;
+      }
+      const name = await saveExport(format, data);
+      Alert.alert("Export termine", `Fichier enregistre : ${name}`);
+    } catch (exportError) {
+      console.error(exportError);
+      Alert.alert("Erreur", (exportError as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading && !data) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#2563eb" />
+      </View>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>
+          {EXPORT_ERROR} {error}
+        </Text>
+      </View>
+    );
+  }
+
+  const disabled = busy !== null || data.books.length === 0;
+
+  return (
+    <ScrollView style={styles.screen} contentContainerStyle={styles.content}>
+      <View style={styles.card}>
+        <Text style={styles.summary}>
+          {data.books.length} livre(s) · {data.notes.length} note(s)
+        </Text>
+        {data.offline ? <Text style={styles.hint}>{OFFLINE_HINT}</Text> : null}
+        {data.partial ? <Text style={styles.hint}>{PARTIAL_HINT}</Text> : null}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Format</Text>
+        {EXPORT_FORMATS.map((option) => (
+          <Pressable
+            key={option.value}
+            onPress={() => setFormat(option.value)}
+            style={[
+              styles.option,
+              format === option.value ? styles.optionActive : null,
+            ]}
+            accessibilityRole="radio"
+            accessibilityState={{ checked: format === option.value }}
+          >
+            <MaterialIcons
+              name={
+                format === option.value
+                  ? "radio-button-checked"
+                  : "radio-button-unchecked"
+              }
+              size={20}
+              color={format === option.value ? "#2563eb" : "#94a3b8"}
+            />
+            <View style={styles.optionBody}>
+              <Text style={styles.optionLabel}>{option.label}</Text>
+              <Text style={styles.optionDescription}>{option.description}</Text>
+            </View>
+          </Pressable>
+        ))}
+      </View>
+
+      <Pressable
+        onPress={() => handleExport("share")}
+        disabled={disabled}
+        style={[styles.button, disabled && styles.buttonDisabled]}
+        accessibilityRole="button"
+      >
+        {busy === "share" ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <>
+            <MaterialIcons name="share" size={18} color="#fff" />
+            <Text style={styles.buttonText}>Partager</Text>
+          </>
+        )}
+      </Pressable>
+      <Pressable
+        onPress={() => handleExport("save")}
+        disabled={disabled}
+        style={[styles.secondaryButton, disabled && styles.buttonDisabled]}
+        accessibilityRole="button"
+      >
+        {busy === "save" ? (
+          <ActivityIndicator color="#2563eb" />
+        ) : (
+          <>
+            <MaterialIcons name="save-alt" size={18} color="#2563eb" />
+            <Text style={styles.secondaryButtonText}>
+              Enregistrer dans un dossier
+            </Text>
+          </>
+        )}
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: "#f5f6fb",
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+    backgroundColor: "#f5f6fb",
+  },
+  card: {
+    backgroundColor: "#fff",
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  summary: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  hint: {
+    fontSize: 14,
+    color: "#475569",
+  },
+  option: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+  },
+  optionActive: {
+    borderColor: "#2563eb",
+    backgroundColor: "#eff6ff",
+  },
+  optionBody: {
+    flex: 1,
+    gap: 2,
+  },
+  optionLabel: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  optionDescription: {
+    fontSize: 13,
+    color: "#64748b",
+  },
+  button: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    borderRadius: 10,
+    paddingVertical: 12,
+    backgroundColor: "#2563eb",
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    borderRadius: 10,
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderColor: "#2563eb",
+    backgroundColor: "#fff",
+  },
+  secondaryButtonText: {
+    color: "#2563eb",
+    fontWeight: "600",
+  },
+  errorText: {
+    color: "#b91c1c",
+    fontSize: 14,
+    textAlign: "center",
+  },
+});
@@ -7,7 +7,6 @@ import {
   Alert,
   FlatList,
   GestureResponderEvent,
-  Image,
   Pressable,
   StyleSheet,
   Text,
@@ -15,16 +14,55 @@ import {
   View,
 } from "react-native";
 
+import { BookCover } from "../components/BookCover";
+import { StatusBadge } from "../components/StatusBadge";
+import { isCanceledError, isNetworkError } from "../services/ApiError";
 import {
   Book,
+  BookPayload,
   GetBooksParams,
+  ReadingStatus,
   SortField,
-  getBooks,
-  updateBook,
+  DEFAULT_PAGE_SIZE,
+  getBookThemes,
+  getBooksPage,
+  getReadingStatus,
+  mergeBookPages,
+  toBookPayload,
+  updateBookFields,
 } from "../services/BooksService";
-import { loadBooksCache, saveBooksCache } from "../services/OfflineStorage";
+import { isOnlineState } from "../services/Connectivity";
+import { cacheCovers } from "../services/CoverCache";
+import {
+  BookSearchIndex,
+  createBookSearchIndex,
+} from "../services/LocalSearch";
+import {
+  QueuedMutation,
+  applyPendingMutations,
+  discardMutation,
+  getBookSyncStatus,
+  isLocalBookId,
+  queueUpdateBook,
+  replayMutations,
+  subscribeToMutationQueue,
+} from "../services/MutationQueue";
+import {
+  isBooksCacheComplete,
+  loadBooksCache,
+  saveBooksCachePage,
+  updateCachedBook,
+} from "../services/OfflineStorage";
+import { getReadingProgress } from "../services/ReadingProgress";
+import {
+  READING_STATUSES,
+  STATUS_TRANSITIONS,
+  getStatusChanges,
+  getStatusLabel,
+} from "../services/ReadingStatus";
+import { getThemes } from "../services/ThemesService";
 
-type FilterRead = "tous" | "lus" | "non lus";
+type FilterStatus = "tous" | ReadingStatus;
 
 const SORT_OPTIONS: { value: SortField; label: string }[] = [
   { value: "title", label: "Titre" },
@@ -34,13 +72,23 @@ const SORT_OPTIONS: { value: SortField; label: string }[] = [
   { value: "rating", label: "Note" },
 ];
 
+// Only unfiltered listings are cached so the offline index covers the library.
+function isLibraryQuery(params: GetBooksParams) {
+  return (
+    !params.query &&
+    params.status === undefined &&
+    params.favorite === undefined &&
+    !params.theme
+  );
+}
+
 export default function Index() {
   const [books, setBooks] = useState<Book[]>([]);
   const [loading, setLoading] = useState(true);
   const [initialLoading, setInitialLoading] = useState(true);
   const [status, setStatus] = useState<string | null>(null);
   const [search, setSearch] = useState("");
-  const [filterRead, setFilterRead] = useState<FilterRead>("tous");
+  const [filterStatus, setFilterStatus] = useState<FilterStatus>("tous");
   const [onlyFavorites, setOnlyFavorites] = useState(false);
   const [selectedTheme, setSelectedTheme] = useState<"tous" | string>("tous");
   const [availableThemes, setAvailableThemes] = useState<string[]>([]);
@@ -49,30 +97,50 @@ export default function Index() {
   const [filtersOpen, setFiltersOpen] = useState(false);
   const [offlineMode, setOfflineMode] = useState(false);
   const [lastSync, setLastSync] = useState<number | null>(null);
+  const [pendingMutations, setPendingMutations] = useState<QueuedMutation[]>(
+    []
+  );
+  const [syncing, setSyncing] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [totalCount, setTotalCount] = useState<number | null>(null);
+  const [partialCache, setPartialCache] = useState<{
+    count: number;
+    total: number;
+  } | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
 
   const offlineRef = useRef(false);
   const hasLocalCacheRef = useRef(false);
+  const loadControllerRef = useRef<AbortController | null>(null);
+  const pageRef = useRef<{ page: number; cursor: string | null }>({
+    page: 0,
+    cursor: null,
+  });
+  const localIndexRef = useRef<{
+    savedAt: number;
+    index: BookSearchIndex;
+  } | null>(null);
 
   const queryParams = useMemo<GetBooksParams>(() => {
     return {
       query: search.trim() ? search.trim() : undefined,
-      read:
-        filterRead === "tous" ? undefined : filterRead === "lus" ? true : false,
+      status: filterStatus === "tous" ? undefined : filterStatus,
       favorite: onlyFavorites ? true : undefined,
       theme: selectedTheme !== "tous" ? selectedTheme : undefined,
       sort,
       order,
     };
-  }, [filterRead, onlyFavorites, order, search, selectedTheme, sort]);
+  }, [filterStatus, onlyFavorites, order, search, selectedTheme, sort]);
 
   const hasActiveFilters = useMemo(
     () =>
-      filterRead !== "tous" ||
+      filterStatus !== "tous" ||
       onlyFavorites ||
       selectedTheme !== "tous" ||
       sort !== "title" ||
       order !== "asc",
-    [filterRead, onlyFavorites, order, selectedTheme, sort]
+    [filterStatus, onlyFavorites, order, selectedTheme, sort]
   );
 
   const lastSyncLabel = useMemo(() => {
@@ -92,9 +160,7 @@ export default function Index() {
     setAvailableThemes((prev) => {
       const combined = new Set(prev);
       data.forEach((item) => {
-        if (item.theme) {
-          combined.add(item.theme);
-        }
+        getBookThemes(item).forEach((theme) => combined.add(theme));
       });
       const next = Array.from(combined).sort((a, b) =>
         a.localeCompare(b, "fr")
@@ -109,33 +175,143 @@ export default function Index() {
     });
   }, []);
 
+  const showLocalResults = useCallback(async () => {
+    const cached = await loadBooksCache();
+    if (!cached) {
+      return false;
+    }
+    if (localIndexRef.current?.savedAt !== cached.savedAt) {
+      localIndexRef.current = {
+        savedAt: cached.savedAt,
+        index: createBookSearchIndex(cached.books),
+      };
+    }
+    setPartialCache(
+      isBooksCacheComplete(cached) || cached.total === null
+        ? null
+        : { count: cached.books.length, total: cached.total }
+    );
+    const results = localIndexRef.current.index.query(queryParams);
+    pageRef.current = { page: 0, cursor: null };
+    setBooks(results);
+    setHasMore(false);
+    setTotalCount(results.length);
+    setLastSync(cached.savedAt);
+    return true;
+  }, [queryParams]);
+
   const loadBooks = useCallback(async () => {
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
+    if (offlineRef.current && hasLocalCacheRef.current) {
+      await showLocalResults();
+      if (loadControllerRef.current !== controller) {
+        return;
+      }
+    }
     try {
       setLoading(true);
-      const data = await getBooks(queryParams);
+      const firstPage = await getBooksPage(
+        { ...queryParams, page: 1, pageSize: DEFAULT_PAGE_SIZE },
+        { signal: controller.signal }
+      );
+      const data = applyPendingMutations(firstPage.items);
+      pageRef.current = { page: 1, cursor: firstPage.nextCursor };
       setBooks(data);
+      setHasMore(firstPage.hasMore);
+      setTotalCount(firstPage.total);
       syncThemesFromData(data);
-      const savedAt = await saveBooksCache(data);
-      setLastSync(savedAt);
-      hasLocalCacheRef.current = true;
+      if (isLibraryQuery(queryParams)) {
+        const savedAt = await saveBooksCachePage({ ...firstPage, items: data });
+        void cacheCovers(data.map((book) => book.cover));
+        setLastSync(savedAt);
+        hasLocalCacheRef.current = true;
+      }
       setOfflineMode(false);
       offlineRef.current = false;
     } catch (error) {
+      if (isCanceledError(error)) {
+        return;
+      }
       console.error(error);
-      if (hasLocalCacheRef.current) {
+      if (isNetworkError(error) && hasLocalCacheRef.current) {
         if (!offlineRef.current) {
           setStatus("Connexion indisponible. Affichage des donnees locales.");
         }
         setOfflineMode(true);
         offlineRef.current = true;
+        await showLocalResults();
       } else {
         Alert.alert("Erreur", (error as Error).message);
       }
     } finally {
-      setLoading(false);
-      setInitialLoading(false);
+      if (loadControllerRef.current === controller) {
+        loadControllerRef.current = null;
+        setLoading(false);
+        setInitialLoading(false);
+      }
+    }
+  }, [queryParams, showLocalResults, syncThemesFromData]);
+
+  useEffect(() => () => loadControllerRef.current?.abort(), []);
+
+  const loadMoreBooks = useCallback(async () => {
+    if (!hasMore || loadingMore || loading || offlineRef.current) {
+      return;
+    }
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
+    const nextPage = pageRef.current.page + 1;
+    try {
+      setLoadingMore(true);
+      const page = await getBooksPage(
+        {
+          ...queryParams,
+          page: nextPage,
+          pageSize: DEFAULT_PAGE_SIZE,
+          cursor: pageRef.current.cursor,
+        },
+        { signal: controller.signal }
+      );
+      const items = applyPendingMutations(page.items);
+      pageRef.current = { page: nextPage, cursor: page.nextCursor };
+      setBooks((prev) => mergeBookPages(prev, items));
+      setHasMore(page.hasMore);
+      setTotalCount(page.total);
+      syncThemesFromData(items);
+      if (isLibraryQuery(queryParams)) {
+        const savedAt = await saveBooksCachePage({ ...page, items });
+        void cacheCovers(items.map((book) => book.cover));
+        setLastSync(savedAt);
+      }
+    } catch (error) {
+      if (isCanceledError(error)) {
+        return;
+      }
+      console.error(error);
+      if (isNetworkError(error)) {
+        setOfflineMode(true);
+        offlineRef.current = true;
+      } else {
+        setStatus((error as Error).message);
+      }
+    } finally {
+      if (loadControllerRef.current === controller) {
+        loadControllerRef.current = null;
+      }
+      setLoadingMore(false);
     }
-  }, [queryParams, syncThemesFromData]);
+  }, [hasMore, loading, loadingMore, queryParams, syncThemesFromData]);
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await loadBooks();
+    } finally {
+      setRefreshing(false);
+    }
+  }, [loadBooks]);
 
   useEffect(() => {
     let canceled = false;
@@ -147,6 +323,7 @@ export default function Index() {
         }
         hasLocalCacheRef.current = true;
         setBooks(cached.books);
+        setTotalCount(cached.total);
         syncThemesFromData(cached.books);
         setLastSync(cached.savedAt);
         setLoading(false);
@@ -166,21 +343,57 @@ export default function Index() {
     }, [loadBooks])
   );
 
+  // The server taxonomy is authoritative; scraped themes only fill in offline.
+  useFocusEffect(
+    useCallback(() => {
+      const controller = new AbortController();
+      getThemes({ signal: controller.signal })
+        .then((themes) => {
+          setAvailableThemes(themes.map((theme) => theme.name));
+        })
+        .catch((error) => {
+          if (!isCanceledError(error)) {
+            console.error("Erreur de chargement des themes", error);
+          }
+        });
+      return () => controller.abort();
+    }, [])
+  );
+
   useEffect(() => {
     offlineRef.current = offlineMode;
   }, [offlineMode]);
 
+  useEffect(() => subscribeToMutationQueue(setPendingMutations), []);
+
+  const syncPendingMutations = useCallback(async () => {
+    try {
+      setSyncing(true);
+      const result = await replayMutations();
+      if (result.synced > 0) {
+        setStatus(
+          result.remaining > 0
+            ? `${result.synced} modification(s) synchronisee(s), ${result.remaining} en attente.`
+            : `${result.synced} modification(s) synchronisee(s).`
+        );
+      }
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setSyncing(false);
+    }
+    await loadBooks();
+  }, [loadBooks]);
+
   useEffect(() => {
     let mounted = true;
     const subscription = Network.addNetworkStateListener((state) => {
-      const isOnline =
-        Boolean(state.isConnected) && state.isInternetReachable !== false;
-      if (isOnline) {
+      if (isOnlineState(state)) {
         const wasOffline = offlineRef.current;
         setOfflineMode(false);
         offlineRef.current = false;
         if (mounted && wasOffline) {
-          loadBooks();
+          syncPendingMutations();
         }
       } else {
         setOfflineMode(true);
@@ -194,9 +407,7 @@ export default function Index() {
         if (!mounted) {
           return;
         }
-        const isOnline =
-          Boolean(state.isConnected) && state.isInternetReachable !== false;
-        if (!isOnline && hasLocalCacheRef.current) {
+        if (!isOnlineState(state) && hasLocalCacheRef.current) {
           setOfflineMode(true);
           offlineRef.current = true;
         }
@@ -209,7 +420,7 @@ export default function Index() {
       mounted = false;
       subscription.remove();
     };
-  }, [loadBooks]);
+  }, [syncPendingMutations]);
 
   const filtersReadyRef = useRef(false);
 
@@ -233,120 +444,108 @@ export default function Index() {
     setFiltersOpen((prev) => !prev);
   }, []);
 
-  const handleToggleRead = useCallback(
-    async (book: Book) => {
-      try {
-        const updated = await updateBook(book.id, {
-          name: book.name,
-          author: book.author,
-          editor: book.editor,
-          year: book.year ?? undefined,
-          read: !book.read,
-          favorite: book.favorite ?? false,
-          rating: book.rating ?? null,
-          cover: book.cover ?? null,
-        });
+  const commitBookUpdate = useCallback(
+    async (book: Book, changes: Partial<BookPayload>) => {
+      const replaceBook = (nextBook: Book) => {
         setBooks((prev) => {
-          const next = prev.map((item) => (item.id === book.id ? updated : item));
+          const next = prev.map((item) =>
+            item.id === book.id ? nextBook : item
+          );
           syncThemesFromData(next);
-          void saveBooksCache(next).then((savedAt) => {
-            setLastSync(savedAt);
-            hasLocalCacheRef.current = true;
-          });
           return next;
         });
-        setOfflineMode(false);
-        offlineRef.current = false;
-        setStatus(
-          book.read
-            ? `Livre marque comme non lu : ${book.name}`
-            : `Livre marque comme lu : ${book.name}`
+      };
+
+      if (!offlineRef.current && !isLocalBookId(book.id)) {
+        try {
+          const updated = await updateBookFields(book, changes);
+          replaceBook(updated);
+          const savedAt = await updateCachedBook(updated);
+          if (savedAt) {
+            setLastSync(savedAt);
+          }
+          setOfflineMode(false);
+          offlineRef.current = false;
+          return false;
+        } catch (error) {
+          console.error(error);
+          if (!isNetworkError(error)) {
+            throw error;
+          }
+          setOfflineMode(true);
+          offlineRef.current = true;
+        }
+      }
+
+      // The queue already applies the change to the offline cache.
+      const payload = toBookPayload(book, changes);
+      await queueUpdateBook(book.id, payload, book);
+      replaceBook({ ...book, ...payload });
+      hasLocalCacheRef.current = true;
+      return true;
+    },
+    [syncThemesFromData]
+  );
+
+  const applyStatus = useCallback(
+    async (book: Book, next: ReadingStatus) => {
+      try {
+        const queued = await commitBookUpdate(
+          book,
+          getStatusChanges(book, next)
         );
+        const message = `${book.name} : ${getStatusLabel(next)}`;
+        setStatus(queued ? `${message} (en attente de synchro)` : message);
       } catch (error) {
-        console.error(error);
-        setOfflineMode(true);
-        offlineRef.current = true;
         Alert.alert("Erreur", (error as Error).message);
       }
     },
-    [syncThemesFromData]
+    [commitBookUpdate]
+  );
+
+  const handleChangeStatus = useCallback(
+    (book: Book) => {
+      const current = getReadingStatus(book);
+      Alert.alert(book.name, `Statut actuel : ${getStatusLabel(current)}`, [
+        ...STATUS_TRANSITIONS[current].map((next) => ({
+          text: getStatusLabel(next),
+          onPress: () => applyStatus(book, next),
+        })),
+        { text: "Annuler", style: "cancel" as const },
+      ]);
+    },
+    [applyStatus]
   );
 
   const handleToggleFavorite = useCallback(
     async (book: Book) => {
       try {
-        const updated = await updateBook(book.id, {
-          name: book.name,
-          author: book.author,
-          editor: book.editor,
-          year: book.year ?? undefined,
-          read: book.read ?? false,
+        const queued = await commitBookUpdate(book, {
           favorite: !book.favorite,
-          rating: book.rating ?? null,
-          cover: book.cover ?? null,
-        });
-        setBooks((prev) => {
-          const next = prev.map((item) => (item.id === book.id ? updated : item));
-          syncThemesFromData(next);
-          void saveBooksCache(next).then((savedAt) => {
-            setLastSync(savedAt);
-            hasLocalCacheRef.current = true;
-          });
-          return next;
         });
-        setOfflineMode(false);
-        offlineRef.current = false;
-        setStatus(
-          !book.favorite
-            ? `Livre ajoute aux favoris : ${book.name}`
-            : `Livre retire des favoris : ${book.name}`
-        );
+        const message = !book.favorite
+          ? `Livre ajoute aux favoris : ${book.name}`
+          : `Livre retire des favoris : ${book.name}`;
+        setStatus(queued ? `${message} (en attente de synchro)` : message);
       } catch (error) {
-        console.error(error);
-        setOfflineMode(true);
-        offlineRef.current = true;
         Alert.alert("Erreur", (error as Error).message);
       }
     },
-    [syncThemesFromData]
+    [commitBookUpdate]
   );
 
   const handleRate = useCallback(
     async (book: Book, rating: number) => {
       const bounded = Math.min(Math.max(Math.round(rating), 1), 5);
       try {
-        const updated = await updateBook(book.id, {
-          name: book.name,
-          author: book.author,
-          editor: book.editor,
-          year: book.year ?? undefined,
-          read: book.read ?? false,
-          favorite: book.favorite ?? false,
-          rating: bounded,
-          cover: book.cover ?? null,
-        });
-        setBooks((prev) => {
-          const next = prev.map((item) => (item.id === book.id ? updated : item));
-          syncThemesFromData(next);
-          void saveBooksCache(next).then((savedAt) => {
-            setLastSync(savedAt);
-            hasLocalCacheRef.current = true;
-          });
-          return next;
-        });
-        setOfflineMode(false);
-        offlineRef.current = false;
-        setStatus(
-          `Note mise a jour : ${bounded} etoile(s) pour ${book.name}`
-        );
+        const queued = await commitBookUpdate(book, { rating: bounded });
+        const message = `Note mise a jour : ${bounded} etoile(s) pour ${book.name}`;
+        setStatus(queued ? `${message} (en attente de synchro)` : message);
       } catch (error) {
-        console.error(error);
-        setOfflineMode(true);
-        offlineRef.current = true;
         Alert.alert("Erreur", (error as Error).message);
       }
     },
-    [syncThemesFromData]
+    [commitBookUpdate]
   );
 
   const renderStars = useCallback(
@@ -385,137 +584,262 @@ export default function Index() {
     [handleRate]
   );
 
+  const failedMutationsCount = useMemo(
+    () => pendingMutations.filter((item) => item.status === "failed").length,
+    [pendingMutations]
+  );
+
+  const handleDiscardFailed = useCallback(() => {
+    const failed = pendingMutations.filter((item) => item.status === "failed");
+    Alert.alert(
+      "Ignorer les echecs",
+      `${failed.length} modification(s) non synchronisee(s) seront abandonnees.`,
+      [
+        { text: "Annuler", style: "cancel" },
+        {
+          text: "Ignorer",
+          style: "destructive",
+          onPress: async () => {
+            for (const item of failed) {
+              await discardMutation(item.id);
+            }
+            loadBooks();
+          },
+        },
+      ]
+    );
+  }, [loadBooks, pendingMutations]);
+
   const renderItem = useCallback(
-    ({ item }: { item: Book }) => (
-      <Pressable
-        onPress={() => router.push(`/books/${item.id}`)}
-        style={({ pressed }) => [
-          styles.bookCard,
-          pressed ? styles.bookCardPressed : null,
-        ]}
-      >
-        <View style={styles.cardContent}>
-          <View style={styles.cardCoverContainer}>
-            {item.cover ? (
-              <Image source={{ uri: item.cover }} style={styles.cardCoverImage} />
-            ) : (
-              <View style={styles.cardCoverPlaceholder}>
-                <Text style={styles.cardCoverPlaceholderText}>Aucune photo</Text>
-              </View>
-            )}
-          </View>
-          <View style={styles.cardInfo}>
-            <Text style={styles.cardTitle}>{item.name}</Text>
-            <View style={styles.cardActionsRow}>
-              <Pressable
-                onPress={(event: GestureResponderEvent) => {
-                  event.stopPropagation();
-                  handleToggleFavorite(item);
-                }}
-                hitSlop={8}
-                accessibilityLabel={
-                  item.favorite
-                    ? `Retirer ${item.name} des favoris`
-                    : `Ajouter ${item.name} aux favoris`
-                }
-              >
-                <Ionicons
-                  name={item.favorite ? "heart" : "heart-outline"}
-                  size={20}
-                  color={item.favorite ? "#dc2626" : "#94a3b8"}
-                />
-              </Pressable>
-              <Pressable
-                onPress={(event: GestureResponderEvent) => {
-                  event.stopPropagation();
-                  handleToggleRead(item);
-                }}
-                style={({ pressed }) => [
-                  styles.readBadge,
-                  item.read ? styles.readBadgeActive : styles.readBadgeInactive,
-                  pressed ? styles.readBadgePressed : null,
-                ]}
-                hitSlop={8}
-                accessibilityLabel={
-                  item.read
-                    ? `Marquer ${item.name} comme non lu`
-                    : `Marquer ${item.name} comme lu`
-                }
-              >
-                <MaterialIcons
-                  name={item.read ? "check-circle" : "radio-button-unchecked"}
-                  size={16}
-                  color={item.read ? "#047857" : "#4b5563"}
-                />
-                <Text style={styles.readBadgeText}>
-                  {item.read ? "Lu" : "A lire"}
-                </Text>
-              </Pressable>
+    ({ item }: { item: Book }) => {
+      const syncStatus = getBookSyncStatus(pendingMutations, item.id);
+      const readingStatus = getReadingStatus(item);
+      const progress =
+        readingStatus === "read" ? null : getReadingProgress(item);
+      return (
+        <Pressable
+          onPress={() => router.push(`/books/${item.id}`)}
+          style={({ pressed }) => [
+            styles.bookCard,
+            pressed ? styles.bookCardPressed : null,
+          ]}
+        >
+          <View style={styles.cardContent}>
+            <View style={styles.cardCoverContainer}>
+              {item.cover ? (
+                <BookCover uri={item.cover} style={styles.cardCoverImage} />
+              ) : (
+                <View style={styles.cardCoverPlaceholder}>
+                  <Text style={styles.cardCoverPlaceholderText}>
+                    Aucune photo
+                  </Text>
+                </View>
+              )}
             </View>
-            <View style={styles.cardMetaStack}>
-              <Text style={styles.cardMeta}>Auteur : {item.author}</Text>
-              {item.editor ? (
-                <Text style={styles.cardMeta}>Editeur : {item.editor}</Text>
-              ) : null}
-              {item.year ? (
-                <Text style={styles.cardMeta}>Publication : {item.year}</Text>
+            <View style={styles.cardInfo}>
+              <Text style={styles.cardTitle}>{item.name}</Text>
+              {syncStatus ? (
+                <View
+                  style={[
+                    styles.syncBadge,
+                    syncStatus === "failed" ? styles.syncBadgeFailed : null,
+                  ]}
+                >
+                  <MaterialIcons
+                    name={
+                      syncStatus === "failed" ? "sync-problem" : "cloud-upload"
+                    }
+                    size={14}
+                    color={syncStatus === "failed" ? "#b91c1c" : "#b45309"}
+                  />
+                  <Text
+                    style={[
+                      styles.syncBadgeText,
+                      syncStatus === "failed"
+                        ? styles.syncBadgeTextFailed
+                        : null,
+                    ]}
+                  >
+                    {syncStatus === "failed"
+                      ? "Echec de synchro"
+                      : syncStatus === "syncing"
+                        ? "Synchronisation..."
+                        : "Non synchronise"}
+                  </Text>
+                </View>
               ) : null}
-              {item.theme ? (
-                <Text style={styles.cardMeta}>Theme : {item.theme}</Text>
+              <View style={styles.cardActionsRow}>
+                <Pressable
+                  onPress={(event: GestureResponderEvent) => {
+                    event.stopPropagation();
+                    handleToggleFavorite(item);
+                  }}
+                  hitSlop={8}
+                  accessibilityLabel={
+                    item.favorite
+                      ? `Retirer ${item.name} des favoris`
+                      : `Ajouter ${item.name} aux favoris`
+                  }
+                >
+                  <Ionicons
+                    name={item.favorite ? "heart" : "heart-outline"}
+                    size={20}
+                    color={item.favorite ? "#dc2626" : "#94a3b8"}
+                  />
+                </Pressable>
+                <StatusBadge
+                  status={readingStatus}
+                  onPress={(event: GestureResponderEvent) => {
+                    event.stopPropagation();
+                    handleChangeStatus(item);
+                  }}
+                  accessibilityLabel={`Changer le statut de ${item.name}`}
+                />
+              </View>
+              <View style={styles.cardMetaStack}>
+                <Text style={styles.cardMeta}>Auteur : {item.author}</Text>
+                {item.editor ? (
+                  <Text style={styles.cardMeta}>Editeur : {item.editor}</Text>
+                ) : null}
+                {item.year ? (
+                  <Text style={styles.cardMeta}>Publication : {item.year}</Text>
+                ) : null}
+                {getBookThemes(item).length > 0 ? (
+                  <Text style={styles.cardMeta}>
+                    Themes : {getBookThemes(item).join(", ")}
+                  </Text>
+                ) : null}
+              </View>
+              {progress ? (
+                <View style={styles.cardProgress}>
+                  <View style={styles.cardProgressTrack}>
+                    <View
+                      style={[
+                        styles.cardProgressFill,
+                        { width: `${Math.round(progress.ratio * 100)}%` },
+                      ]}
+                    />
+                  </View>
+                  <Text style={styles.cardProgressText}>
+                    {progress.currentPage}/{progress.totalPages} p.
+                  </Text>
+                </View>
               ) : null}
+              {renderStars(item)}
             </View>
-            {renderStars(item)}
           </View>
-        </View>
-      </Pressable>
-    ),
-    [handleToggleFavorite, handleToggleRead, renderStars]
+        </Pressable>
+      );
+    },
+    [handleChangeStatus, handleToggleFavorite, pendingMutations, renderStars]
   );
 
   return (
     <View style={styles.screen}>
       <View style={styles.topBar}>
-      <View style={styles.headerRow}>
-        <Text style={styles.title}>Livres</Text>
-        <View style={styles.headerActions}>
-          <Link href="/stats" asChild>
-            <Pressable style={styles.statsButton}>
-              <MaterialIcons name="insert-chart" size={16} color="#2563eb" />
-              <Text style={styles.statsButtonText}>Statistiques</Text>
-            </Pressable>
-          </Link>
-          <Link href="/books/new" asChild>
-            <Pressable style={styles.addButton}>
-              <Text style={styles.addButtonText}>Ajouter</Text>
-            </Pressable>
-          </Link>
+        <View style={styles.headerRow}>
+          <Text style={styles.title}>Livres</Text>
+          <View style={styles.headerActions}>
+            <Link href="/notes" asChild>
+              <Pressable style={styles.statsButton}>
+                <MaterialIcons name="notes" size={16} color="#2563eb" />
+                <Text style={styles.statsButtonText}>Notes</Text>
+              </Pressable>
+            </Link>
+            <Link href="/stats" asChild>
+              <Pressable style={styles.statsButton}>
+                <MaterialIcons name="insert-chart" size={16} color="#2563eb" />
+                <Text style={styles.statsButtonText}>Statistiques</Text>
+              </Pressable>
+            </Link>
+            <Link href="/books/new" asChild>
+              <Pressable style={styles.addButton}>
+                <Text style={styles.addButtonText}>Ajouter</Text>
+              </Pressable>
+            </Link>
+          </View>
         </View>
-      </View>
-      {offlineMode ? (
-        <View style={styles.offlineBanner}>
-          <MaterialIcons name="wifi-off" size={18} color="#b91c1c" />
-          <View style={styles.offlineTextGroup}>
-            <Text style={styles.offlineTitle}>Mode hors ligne</Text>
-            <Text style={styles.offlineSubtitle}>
-              {lastSyncLabel
-                ? `Derniere synchro : ${lastSyncLabel}`
-                : "Affichage des donnees en cache."}
+        {offlineMode ? (
+          <View style={styles.offlineBanner}>
+            <MaterialIcons name="wifi-off" size={18} color="#b91c1c" />
+            <View style={styles.offlineTextGroup}>
+              <Text style={styles.offlineTitle}>Mode hors ligne</Text>
+              <Text style={styles.offlineSubtitle}>
+                {lastSyncLabel
+                  ? `Derniere synchro : ${lastSyncLabel}`
+                  : "Affichage des donnees en cache."}
+              </Text>
+              <Text style={styles.offlineSubtitle}>
+                Recherche, filtres et tri appliques localement.
+              </Text>
+              {partialCache ? (
+                <Text style={styles.offlineSubtitle}>
+                  Liste partielle : {partialCache.count} livre(s) sur{" "}
+                  {partialCache.total} enregistres localement.
+                </Text>
+              ) : null}
+            </View>
+          </View>
+        ) : lastSyncLabel ? (
+          <View style={styles.syncNotice}>
+            <MaterialIcons name="cloud-done" size={18} color="#2563eb" />
+            <Text style={styles.syncNoticeText}>
+              Derniere mise a jour : {lastSyncLabel}
             </Text>
           </View>
-        </View>
-      ) : lastSyncLabel ? (
-        <View style={styles.syncNotice}>
-          <MaterialIcons name="cloud-done" size={18} color="#2563eb" />
-          <Text style={styles.syncNoticeText}>
-            Derniere mise a jour : {lastSyncLabel}
-          </Text>
-        </View>
-      ) : null}
-      <TextInput
-        value={search}
-        onChangeText={setSearch}
-        placeholder="Rechercher par titre ou auteur"
-        placeholderTextColor="#94a3b8"
+        ) : null}
+        {pendingMutations.length > 0 ? (
+          <View style={styles.pendingBanner}>
+            <MaterialIcons
+              name={failedMutationsCount > 0 ? "sync-problem" : "cloud-upload"}
+              size={18}
+              color="#b45309"
+            />
+            <View style={styles.offlineTextGroup}>
+              <Text style={styles.pendingTitle}>
+                {pendingMutations.length} modification(s) en attente
+              </Text>
+              {failedMutationsCount > 0 ? (
+                <>
+                  <Text style={styles.pendingSubtitle}>
+                    {failedMutationsCount} modification(s) refusee(s) par le
+                    serveur.
+                  </Text>
+                  {pendingMutations
+                    .filter(
+                      (item) => item.status === "failed" && item.lastError
+                    )
+                    .slice(0, 1)
+                    .map((item) => (
+                      <Text style={styles.pendingSubtitle} key={item.id}>
+                        {item.lastError}
+                      </Text>
+                    ))}
+                  <Pressable onPress={handleDiscardFailed} hitSlop={8}>
+                    <Text style={styles.pendingLink}>Ignorer les echecs</Text>
+                  </Pressable>
+                </>
+              ) : null}
+            </View>
+            <Pressable
+              onPress={syncPendingMutations}
+              disabled={offlineMode || syncing}
+              style={[
+                styles.pendingButton,
+                offlineMode || syncing ? styles.pendingButtonDisabled : null,
+              ]}
+            >
+              <Text style={styles.pendingButtonText}>
+                {syncing ? "Synchro..." : "Synchroniser"}
+              </Text>
+            </Pressable>
+          </View>
+        ) : null}
+        <TextInput
+          value={search}
+          onChangeText={setSearch}
+          placeholder="Rechercher par titre ou auteur"
+          placeholderTextColor="#94a3b8"
           style={styles.searchInput}
         />
         <Pressable
@@ -560,27 +884,28 @@ export default function Index() {
             <View style={styles.filterSection}>
               <Text style={styles.filterSectionTitle}>Etat de lecture</Text>
               <View style={styles.chipGroup}>
-                {(["tous", "lus", "non lus"] as const).map((value) => (
+                {[
+                  { value: "tous" as const, label: "Tous" },
+                  ...READING_STATUSES,
+                ].map(({ value, label }) => (
                   <Pressable
                     key={value}
-                    onPress={() => setFilterRead(value)}
+                    onPress={() => setFilterStatus(value)}
                     style={[
                       styles.filterChip,
-                      filterRead === value ? styles.filterChipActive : null,
+                      filterStatus === value ? styles.filterChipActive : null,
                     ]}
                     accessibilityRole="button"
                   >
                     <Text
                       style={[
                         styles.filterChipText,
-                        filterRead === value ? styles.filterChipTextActive : null,
+                        filterStatus === value
+                          ? styles.filterChipTextActive
+                          : null,
                       ]}
                     >
-                      {value === "tous"
-                        ? "Tous"
-                        : value === "lus"
-                        ? "Deja lus"
-                        : "A lire"}
+                      {label}
                     </Text>
                   </Pressable>
                 ))}
@@ -609,7 +934,14 @@ export default function Index() {
             </View>
             {availableThemes.length > 0 ? (
               <View style={styles.filterSection}>
-                <Text style={styles.filterSectionTitle}>Theme</Text>
+                <View style={styles.filterSectionHeader}>
+                  <Text style={styles.filterSectionTitle}>Theme</Text>
+                  <Link href="/themes" asChild>
+                    <Pressable hitSlop={8}>
+                      <Text style={styles.manageLink}>Gerer les themes</Text>
+                    </Pressable>
+                  </Link>
+                </View>
                 <View style={styles.chipGroup}>
                   {["tous", ...availableThemes].map((value) => (
                     <Pressable
@@ -617,7 +949,9 @@ export default function Index() {
                       onPress={() => setSelectedTheme(value)}
                       style={[
                         styles.filterChip,
-                        selectedTheme === value ? styles.filterChipActive : null,
+                        selectedTheme === value
+                          ? styles.filterChipActive
+                          : null,
                       ]}
                     >
                       <Text
@@ -696,6 +1030,22 @@ export default function Index() {
           books.length === 0 ? styles.emptyContent : styles.listContent
         }
         ItemSeparatorComponent={() => <View style={styles.separator} />}
+        onEndReached={loadMoreBooks}
+        onEndReachedThreshold={0.4}
+        refreshing={refreshing}
+        onRefresh={handleRefresh}
+        ListFooterComponent={
+          loadingMore ? (
+            <View style={styles.listFooter}>
+              <ActivityIndicator size="small" color="#2563eb" />
+            </View>
+          ) : books.length > 0 && typeof totalCount === "number" ? (
+            <Text style={styles.listFooterText}>
+              {books.length} livre(s) affiche(s) sur{" "}
+              {Math.max(totalCount, books.length)}
+            </Text>
+          ) : null
+        }
         ListEmptyComponent={
           initialLoading ? (
             <View style={styles.emptyContent}>
@@ -763,6 +1113,45 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: "#7f1d1d",
   },
+  pendingBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#fcd34d",
+    backgroundColor: "#fffbeb",
+    padding: 12,
+  },
+  pendingTitle: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#92400e",
+  },
+  pendingSubtitle: {
+    fontSize: 13,
+    color: "#b45309",
+  },
+  pendingLink: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#92400e",
+    textDecorationLine: "underline",
+  },
+  pendingButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    backgroundColor: "#f59e0b",
+  },
+  pendingButtonDisabled: {
+    opacity: 0.5,
+  },
+  pendingButtonText: {
+    color: "#fff",
+    fontWeight: "600",
+    fontSize: 13,
+  },
   syncNotice: {
     flexDirection: "row",
     alignItems: "center",
@@ -862,6 +1251,16 @@ const styles = StyleSheet.create({
     borderColor: "#e2e8f0",
     gap: 16,
   },
+  filterSectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  manageLink: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#2563eb",
+  },
   filterSection: {
     gap: 8,
   },
@@ -1001,6 +1400,27 @@ const styles = StyleSheet.create({
     flex: 1,
     gap: 10,
   },
+  syncBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 999,
+    backgroundColor: "#fef3c7",
+  },
+  syncBadgeFailed: {
+    backgroundColor: "#fee2e2",
+  },
+  syncBadgeText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#b45309",
+  },
+  syncBadgeTextFailed: {
+    color: "#b91c1c",
+  },
   cardTitle: {
     fontSize: 18,
     fontWeight: "700",
@@ -1020,27 +1440,26 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: "#4b5563",
   },
-  readBadge: {
+  cardProgress: {
     flexDirection: "row",
     alignItems: "center",
-    gap: 6,
-    paddingHorizontal: 10,
-    paddingVertical: 4,
-    borderRadius: 999,
-  },
-  readBadgeActive: {
-    backgroundColor: "#dcfce7",
+    gap: 8,
   },
-  readBadgeInactive: {
-    backgroundColor: "#e5e7eb",
+  cardProgressTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 999,
+    backgroundColor: "#e2e8f0",
+    overflow: "hidden",
   },
-  readBadgePressed: {
-    opacity: 0.85,
+  cardProgressFill: {
+    height: "100%",
+    backgroundColor: "#2563eb",
   },
-  readBadgeText: {
+  cardProgressText: {
     fontSize: 12,
     fontWeight: "600",
-    color: "#1f2937",
+    color: "#475569",
   },
   starsWrapper: {
     flexDirection: "row",
@@ -1056,6 +1475,16 @@ const styles = StyleSheet.create({
   separator: {
     height: 12,
   },
+  listFooter: {
+    paddingVertical: 16,
+    alignItems: "center",
+  },
+  listFooterText: {
+    paddingVertical: 16,
+    textAlign: "center",
+    fontSize: 13,
+    color: "#64748b",
+  },
   emptyContent: {
     flexGrow: 1,
     justifyContent: "center",
@@ -0,0 +1,191 @@
+import { Link } from "expo-router";
+import { useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { useAuth } from "../contexts/AuthContext";
+import { ValidationError } from "../services/ApiError";
+
+type LoginErrors = {
+  email?: string;
+  password?: string;
+  general?: string;
+};
+
+export default function LoginScreen() {
+  const { signIn } = useAuth();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [errors, setErrors] = useState<LoginErrors>({});
+
+  const canSubmit = Boolean(email.trim()) && Boolean(password) && !submitting;
+
+  const handleSubmit = async () => {
+    try {
+      setSubmitting(true);
+      setErrors({});
+      await signIn(email, password);
+    } catch (error) {
+      console.error(error);
+      if (error instanceof ValidationError) {
+        setErrors({
+          email: error.fieldErrors.email,
+          password: error.fieldErrors.password,
+          general: error.message,
+        });
+        return;
+      }
+      setErrors({ general: (error as Error).message });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <ScrollView
+      style={styles.wrapper}
+      contentContainerStyle={styles.container}
+      keyboardShouldPersistTaps="handled"
+    >
+      <Text style={styles.title}>Connexion</Text>
+      <Text style={styles.subtitle}>
+        Retrouvez votre bibliotheque sur tous vos appareils.
+      </Text>
+      <View style={styles.formCard}>
+        <View style={styles.field}>
+          <Text style={styles.label}>Adresse e-mail</Text>
+          <TextInput
+            value={email}
+            onChangeText={setEmail}
+            style={styles.input}
+            placeholder="vous@exemple.fr"
+            placeholderTextColor="#94a3b8"
+            autoCapitalize="none"
+            autoComplete="email"
+            keyboardType="email-address"
+            editable={!submitting}
+          />
+          {errors.email ? (
+            <Text style={styles.error}>{errors.email}</Text>
+          ) : null}
+        </View>
+        <View style={styles.field}>
+          <Text style={styles.label}>Mot de passe</Text>
+          <TextInput
+            value={password}
+            onChangeText={setPassword}
+            style={styles.input}
+            placeholder="Votre mot de passe"
+            placeholderTextColor="#94a3b8"
+            secureTextEntry
+            autoComplete="password"
+            editable={!submitting}
+            onSubmitEditing={canSubmit ? handleSubmit : undefined}
+          />
+          {errors.password ? (
+            <Text style={styles.error}>{errors.password}</Text>
+          ) : null}
+        </View>
+        {errors.general ? (
+          <Text style={styles.error}>{errors.general}</Text>
+        ) : null}
+      </View>
+      <Pressable
+        style={[
+          styles.submitButton,
+          !canSubmit ? styles.submitButtonDisabled : null,
+        ]}
+        onPress={handleSubmit}
+        disabled={!canSubmit}
+      >
+        {submitting ? (
+          <ActivityIndicator size="small" color="#fff" />
+        ) : (
+          <Text style={styles.submitText}>Se connecter</Text>
+        )}
+      </Pressable>
+      <Link href="/register" style={styles.link}>
+        Pas encore de compte ? Creer un compte
+      </Link>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrapper: {
+    flex: 1,
+    backgroundColor: "#f5f6fb",
+  },
+  container: {
+    padding: 24,
+    gap: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  subtitle: {
+    fontSize: 15,
+    color: "#475569",
+  },
+  formCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: "#0f172a",
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 6 },
+    elevation: 2,
+    gap: 16,
+  },
+  field: {
+    gap: 6,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#d4d4d8",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    backgroundColor: "#f8fafc",
+  },
+  error: {
+    color: "#b91c1c",
+    fontSize: 13,
+  },
+  submitButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+    backgroundColor: "#2563eb",
+  },
+  submitButtonDisabled: {
+    backgroundColor: "#93c5fd",
+  },
+  submitText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#fff",
+  },
+  link: {
+    textAlign: "center",
+    color: "#2563eb",
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,427 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import { router, useFocusEffect } from "expo-router";
+import { useCallback, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  SectionList,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { MarkdownText } from "../components/MarkdownText";
+import { isCanceledError, isNetworkError } from "../services/ApiError";
+import { Note, getAllNotes } from "../services/BooksService";
+import { matchesText, tokenize } from "../services/LocalSearch";
+import {
+  loadBooksCache,
+  loadNotesCache,
+  saveNotesCache,
+} from "../services/OfflineStorage";
+import { formatPageRange, getNoteKindLabel } from "../services/ReadingNotes";
+
+type Grouping = "date" | "book";
+
+type NoteSection = {
+  key: string;
+  title: string;
+  data: Note[];
+};
+
+function formatNoteDate(value: string) {
+  return new Date(value).toLocaleDateString("fr-FR", {
+    day: "2-digit",
+    month: "long",
+    year: "numeric",
+  });
+}
+
+function formatMonth(value: string) {
+  const label = new Date(value).toLocaleDateString("fr-FR", {
+    month: "long",
+    year: "numeric",
+  });
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+export default function NotesScreen() {
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [bookTitles, setBookTitles] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [offline, setOffline] = useState(false);
+  const [search, setSearch] = useState("");
+  const [grouping, setGrouping] = useState<Grouping>("date");
+
+  const loadNotes = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setError(null);
+      const cachedBooks = await loadBooksCache();
+      setBookTitles(
+        Object.fromEntries(
+          (cachedBooks?.books ?? []).map((book) => [book.id, book.name])
+        )
+      );
+      const data = await getAllNotes({ signal });
+      setNotes(data);
+      setOffline(false);
+      await saveNotesCache(data);
+    } catch (fetchError) {
+      if (isCanceledError(fetchError)) {
+        return;
+      }
+      console.error(fetchError);
+      const cached = isNetworkError(fetchError) ? await loadNotesCache() : null;
+      if (cached) {
+        setNotes(cached.notes);
+        setOffline(true);
+        return;
+      }
+      setError((fetchError as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      const controller = new AbortController();
+      loadNotes(controller.signal);
+      return () => controller.abort();
+    }, [loadNotes])
+  );
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await loadNotes();
+    } finally {
+      setRefreshing(false);
+    }
+  }, [loadNotes]);
+
+  const getBookTitle = useCallback(
+    (note: Note) => note.bookName ?? bookTitles[note.bookId] ?? "Livre",
+    [bookTitles]
+  );
+
+  const indexedNotes = useMemo(
+    () =>
+      [...notes]
+        .sort((a, b) => b.dateISO.localeCompare(a.dateISO))
+        .map((note) => ({
+          note,
+          tokens: tokenize(
+            [note.content, getBookTitle(note), ...(note.tags ?? [])].join(" ")
+          ),
+        })),
+    [getBookTitle, notes]
+  );
+
+  const filteredNotes = useMemo(() => {
+    const queryTokens = tokenize(search);
+    return indexedNotes
+      .filter(
+        (entry) =>
+          queryTokens.length === 0 || matchesText(queryTokens, entry.tokens)
+      )
+      .map((entry) => entry.note);
+  }, [indexedNotes, search]);
+
+  // Notes are already sorted newest first, so sections keep that order.
+  const sections = useMemo<NoteSection[]>(() => {
+    const groups = new Map<string, NoteSection>();
+    filteredNotes.forEach((note) => {
+      const key = grouping === "book" ? note.bookId : note.dateISO.slice(0, 7);
+      const existing = groups.get(key);
+      if (existing) {
+        existing.data.push(note);
+        return;
+      }
+      groups.set(key, {
+        key,
+        title:
+          grouping === "book" ? getBookTitle(note) : formatMonth(note.dateISO),
+        data: [note],
+      });
+    });
+    return Array.from(groups.values());
+  }, [filteredNotes, getBookTitle, grouping]);
+
+  const renderNote = useCallback(
+    ({ item }: { item: Note }) => {
+      const kindLabel = getNoteKindLabel(item.kind);
+      const pages = formatPageRange(item);
+      return (
+        <Pressable
+          onPress={() => router.push(`/books/${item.bookId}`)}
+          style={({ pressed }) => [
+            styles.noteCard,
+            pressed ? styles.noteCardPressed : null,
+          ]}
+        >
+          <View style={styles.noteHeader}>
+            {grouping === "date" ? (
+              <Text style={styles.bookTitle} numberOfLines={1}>
+                {getBookTitle(item)}
+              </Text>
+            ) : null}
+            <Text style={styles.noteDate}>{formatNoteDate(item.dateISO)}</Text>
+          </View>
+          {kindLabel || pages ? (
+            <View style={styles.badges}>
+              {kindLabel ? (
+                <Text style={styles.kindBadge}>{kindLabel}</Text>
+              ) : null}
+              {pages ? <Text style={styles.pageBadge}>{pages}</Text> : null}
+            </View>
+          ) : null}
+          <MarkdownText content={item.content} style={styles.noteContent} />
+          {item.tags && item.tags.length > 0 ? (
+            <Text style={styles.tags}>
+              {item.tags.map((tag) => `#${tag}`).join(" ")}
+            </Text>
+          ) : null}
+        </Pressable>
+      );
+    },
+    [getBookTitle, grouping]
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator size="large" color="#2563eb" />
+        <Text style={styles.statusText}>Chargement des notes...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.screen}>
+      <View style={styles.toolbar}>
+        <TextInput
+          value={search}
+          onChangeText={setSearch}
+          placeholder="Rechercher dans les notes"
+          placeholderTextColor="#94a3b8"
+          style={styles.searchInput}
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+        />
+        <View style={styles.groupingRow}>
+          {(
+            [
+              { value: "date", label: "Par date" },
+              { value: "book", label: "Par livre" },
+            ] as { value: Grouping; label: string }[]
+          ).map((option) => {
+            const selected = grouping === option.value;
+            return (
+              <Pressable
+                key={option.value}
+                onPress={() => setGrouping(option.value)}
+                style={[styles.chip, selected && styles.chipActive]}
+              >
+                <Text
+                  style={[styles.chipText, selected && styles.chipTextActive]}
+                >
+                  {option.label}
+                </Text>
+              </Pressable>
+            );
+          })}
+          <Text style={styles.countText}>{filteredNotes.length} note(s)</Text>
+        </View>
+        {offline ? (
+          <View style={styles.offlineBanner}>
+            <MaterialIcons name="wifi-off" size={16} color="#b91c1c" />
+            <Text style={styles.offlineText}>
+              Mode hors ligne : affichage des notes en cache.
+            </Text>
+          </View>
+        ) : null}
+      </View>
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => item.id}
+        renderItem={renderNote}
+        renderSectionHeader={({ section }) => (
+          <Text style={styles.sectionTitle}>{section.title}</Text>
+        )}
+        contentContainerStyle={styles.listContent}
+        stickySectionHeadersEnabled={false}
+        refreshing={refreshing}
+        onRefresh={handleRefresh}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {error
+              ? `Impossible de charger les notes : ${error}`
+              : search.trim()
+                ? "Aucune note ne correspond a la recherche."
+                : "Aucune note pour le moment."}
+          </Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: "#f5f6fb",
+  },
+  center: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 12,
+    padding: 16,
+    backgroundColor: "#f5f6fb",
+  },
+  statusText: {
+    fontSize: 16,
+    color: "#475569",
+  },
+  toolbar: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    gap: 12,
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderColor: "#d4d4d8",
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 15,
+    backgroundColor: "#fff",
+  },
+  groupingRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#cbd5f5",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: "#fff",
+  },
+  chipActive: {
+    backgroundColor: "#2563eb",
+    borderColor: "#2563eb",
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  chipTextActive: {
+    color: "#fff",
+  },
+  countText: {
+    marginLeft: "auto",
+    fontSize: 13,
+    color: "#64748b",
+  },
+  offlineBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    borderRadius: 12,
+    padding: 10,
+    backgroundColor: "#fee2e2",
+  },
+  offlineText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#b91c1c",
+  },
+  listContent: {
+    padding: 16,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#111827",
+    marginTop: 8,
+  },
+  noteCard: {
+    backgroundColor: "#fff",
+    borderRadius: 14,
+    padding: 14,
+    gap: 8,
+    shadowColor: "#0f172a",
+    shadowOpacity: 0.05,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 4 },
+    elevation: 2,
+  },
+  noteCardPressed: {
+    opacity: 0.85,
+  },
+  noteHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  bookTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#1d4ed8",
+  },
+  noteDate: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#64748b",
+  },
+  badges: {
+    flexDirection: "row",
+    gap: 6,
+  },
+  kindBadge: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#1d4ed8",
+    backgroundColor: "#dbeafe",
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    overflow: "hidden",
+  },
+  pageBadge: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#334155",
+    backgroundColor: "#e2e8f0",
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    overflow: "hidden",
+  },
+  noteContent: {
+    fontSize: 15,
+    color: "#1f2937",
+  },
+  tags: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#4338ca",
+  },
+  emptyText: {
+    textAlign: "center",
+    fontSize: 15,
+    color: "#6b7280",
+    marginTop: 24,
+  },
+});
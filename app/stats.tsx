@@ -12,39 +12,59 @@ import {
 } from "react-native";
 import { PieChart } from "react-native-chart-kit";
 
-import { BooksStats, getStats } from "../services/BooksService";
+import { ReadingGoalsCard } from "../components/ReadingGoalsCard";
+import { StatsTimelineSection } from "../components/StatsTimelineSection";
+import { isCanceledError, isNetworkError } from "../services/ApiError";
+import {
+  BooksStats,
+  ReadingStatus,
+  getStats,
+} from "../services/BooksService";
+import {
+  LocalStatsSource,
+  StatsMismatch,
+  compareStats,
+  computeBooksStats,
+  loadLocalBooks,
+} from "../services/LocalStats";
+import { getPendingCount } from "../services/MutationQueue";
+import { READING_STATUSES, getStatusCounts } from "../services/ReadingStatus";
+
+const STATUS_COLORS: Record<ReadingStatus, string> = {
+  "want-to-read": "#94a3b8",
+  reading: "#2563eb",
+  read: "#047857",
+  abandoned: "#f59e0b",
+};
 
 export default function StatsScreen() {
   const [stats, setStats] = useState<BooksStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [localSource, setLocalSource] = useState<LocalStatsSource | null>(
+    null
+  );
+  const [mismatches, setMismatches] = useState<StatsMismatch[]>([]);
 
   const chartWidth = useMemo(() => {
     const screenWidth = Dimensions.get("window").width;
     return Math.max(screenWidth - 32, 320);
   }, []);
 
+  const statusCounts = useMemo(
+    () => (stats ? getStatusCounts(stats) : null),
+    [stats]
+  );
+
   const pieData = useMemo(() => {
-    if (!stats) {
+    if (!statusCounts) {
       return null;
     }
-    const segments = [
-      {
-        label: "Lus",
-        value: stats.readCount,
-        color: "#2563eb",
-      },
-      {
-        label: "Non lus",
-        value: stats.unreadCount,
-        color: "#94a3b8",
-      },
-      {
-        label: "Favoris",
-        value: stats.favoritesCount,
-        color: "#f97316",
-      },
-    ].filter((segment) => segment.value > 0);
+    const segments = READING_STATUSES.map(({ value, label }) => ({
+      label,
+      value: statusCounts[value],
+      color: STATUS_COLORS[value],
+    })).filter((segment) => segment.value > 0);
 
     if (segments.length === 0) {
       return null;
@@ -57,7 +77,7 @@ export default function StatsScreen() {
       legendFontColor: "#111827",
       legendFontSize: 13,
     }));
-  }, [stats]);
+  }, [statusCounts]);
 
   const averageRatingText = useMemo(() => {
     if (!stats || typeof stats.averageRating !== "number") {
@@ -66,13 +86,49 @@ export default function StatsScreen() {
     return stats.averageRating.toFixed(1);
   }, [stats]);
 
-  const loadStats = useCallback(async () => {
+  const localLabel = useMemo(() => {
+    if (!localSource) {
+      return null;
+    }
+    const date = new Date(localSource.savedAt);
+    const dateText = date.toLocaleDateString("fr-FR");
+    const timeText = date.toLocaleTimeString("fr-FR", {
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    const partial = localSource.complete ? "" : " (liste partielle)";
+    return `Hors ligne : calcule localement au ${dateText} ${timeText}${partial}.`;
+  }, [localSource]);
+
+  const loadStats = useCallback(async (signal?: AbortSignal) => {
     try {
       setLoading(true);
       setError(null);
-      const data = await getStats();
+      const data = await getStats({ signal });
       setStats(data);
+      setLocalSource(null);
+
+      // The cache only mirrors the server once fully loaded and synced.
+      const local = await loadLocalBooks();
+      const pending = await getPendingCount();
+      const differences =
+        local?.complete && pending === 0
+          ? compareStats(data, computeBooksStats(local.books))
+          : [];
+      setMismatches(differences);
     } catch (fetchError) {
+      if (isCanceledError(fetchError)) {
+        return;
+      }
+      if (isNetworkError(fetchError)) {
+        const local = await loadLocalBooks();
+        if (local) {
+          setStats(computeBooksStats(local.books));
+          setLocalSource(local);
+          setMismatches([]);
+          return;
+        }
+      }
       console.error(fetchError);
       setError((fetchError as Error).message);
     } finally {
@@ -82,7 +138,9 @@ export default function StatsScreen() {
 
   useFocusEffect(
     useCallback(() => {
-      loadStats();
+      const controller = new AbortController();
+      loadStats(controller.signal);
+      return () => controller.abort();
     }, [loadStats])
   );
 
@@ -92,7 +150,7 @@ export default function StatsScreen() {
         <View style={styles.cardHeader}>
           <Text style={styles.cardTitle}>Tableau de bord</Text>
           <Pressable
-            onPress={loadStats}
+            onPress={() => loadStats()}
             style={({ pressed }) => [
               styles.refreshButton,
               pressed ? styles.refreshButtonPressed : null,
@@ -119,20 +177,38 @@ export default function StatsScreen() {
             <ActivityIndicator size="large" color="#2563eb" />
             <Text style={styles.loaderText}>Chargement des statistiques...</Text>
           </View>
-        ) : stats ? (
+        ) : stats && statusCounts ? (
           <View style={styles.statsBody}>
+            {localLabel ? (
+              <View style={styles.localBanner}>
+                <MaterialIcons name="cloud-off" size={16} color="#b45309" />
+                <Text style={styles.localText}>{localLabel}</Text>
+              </View>
+            ) : null}
+            {mismatches.length > 0 ? (
+              <Text style={styles.mismatchText}>
+                {"Le cache de l'appareil differe du serveur ("}
+                {mismatches
+                  .map(
+                    ({ label, local, server }) =>
+                      `${label} : ${local} contre ${server}`
+                  )
+                  .join(", ")}
+                {"). Actualisez la liste des livres pour le mettre a jour."}
+              </Text>
+            ) : null}
             <View style={styles.summaryRow}>
               <View style={styles.summaryItem}>
                 <Text style={styles.summaryValue}>{stats.totalBooks}</Text>
                 <Text style={styles.summaryLabel}>Livres</Text>
               </View>
               <View style={styles.summaryItem}>
-                <Text style={styles.summaryValue}>{stats.readCount}</Text>
-                <Text style={styles.summaryLabel}>Lus</Text>
+                <Text style={styles.summaryValue}>{statusCounts.reading}</Text>
+                <Text style={styles.summaryLabel}>En cours</Text>
               </View>
               <View style={styles.summaryItem}>
-                <Text style={styles.summaryValue}>{stats.unreadCount}</Text>
-                <Text style={styles.summaryLabel}>Non lus</Text>
+                <Text style={styles.summaryValue}>{statusCounts.read}</Text>
+                <Text style={styles.summaryLabel}>Lus</Text>
               </View>
               <View style={styles.summaryItem}>
                 <Text style={styles.summaryValue}>{stats.favoritesCount}</Text>
@@ -179,6 +255,8 @@ export default function StatsScreen() {
           </View>
         )}
       </View>
+      <ReadingGoalsCard />
+      <StatsTimelineSection />
     </ScrollView>
   );
 }
@@ -197,6 +275,7 @@ const styles = StyleSheet.create({
   },
   content: {
     padding: 20,
+    gap: 20,
   },
   card: {
     backgroundColor: "#ffffff",
@@ -253,6 +332,23 @@ const styles = StyleSheet.create({
   statsBody: {
     gap: 20,
   },
+  localBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    borderRadius: 12,
+    backgroundColor: "#fef3c7",
+    padding: 10,
+  },
+  localText: {
+    flex: 1,
+    color: "#92400e",
+    fontSize: 13,
+  },
+  mismatchText: {
+    color: "#64748b",
+    fontSize: 12,
+  },
   summaryRow: {
     flexDirection: "row",
     justifyContent: "space-between",
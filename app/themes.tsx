@@ -0,0 +1,433 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import { useFocusEffect } from "expo-router";
+import { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { isCanceledError, isNetworkError } from "../services/ApiError";
+import {
+  Theme,
+  deleteTheme,
+  getCachedThemes,
+  getThemes,
+  mergeThemes,
+  renameTheme,
+} from "../services/ThemesService";
+
+export default function ThemesScreen() {
+  const [themes, setThemes] = useState<Theme[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [offline, setOffline] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+
+  const loadThemes = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const data = await getThemes({ signal });
+      setThemes(data);
+      setOffline(false);
+    } catch (error) {
+      if (isCanceledError(error)) {
+        return;
+      }
+      console.error(error);
+      if (isNetworkError(error)) {
+        setThemes(await getCachedThemes());
+        setOffline(true);
+        return;
+      }
+      Alert.alert("Erreur", (error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      const controller = new AbortController();
+      loadThemes(controller.signal);
+      return () => controller.abort();
+    }, [loadThemes])
+  );
+
+  useEffect(() => {
+    if (!status) {
+      return;
+    }
+    const timer = setTimeout(() => setStatus(null), 3000);
+    return () => clearTimeout(timer);
+  }, [status]);
+
+  const runAction = useCallback(
+    async (action: () => Promise<string>) => {
+      try {
+        setBusy(true);
+        const message = await action();
+        setEditingName(null);
+        setSelected([]);
+        setMergeTarget("");
+        setStatus(message);
+        await loadThemes();
+      } catch (error) {
+        console.error(error);
+        Alert.alert(
+          "Erreur",
+          isNetworkError(error)
+            ? "La gestion des themes necessite une connexion."
+            : (error as Error).message
+        );
+      } finally {
+        setBusy(false);
+      }
+    },
+    [loadThemes]
+  );
+
+  const handleStartRename = (theme: Theme) => {
+    setEditingName(theme.name);
+    setRenameValue(theme.name);
+  };
+
+  const handleRename = (theme: Theme) => {
+    const nextName = renameValue.trim();
+    if (!nextName || nextName === theme.name) {
+      setEditingName(null);
+      return;
+    }
+    runAction(async () => {
+      const renamed = await renameTheme(theme.name, nextName);
+      return `Theme renomme : ${renamed}`;
+    });
+  };
+
+  const handleDelete = (theme: Theme) => {
+    Alert.alert(
+      "Supprimer le theme",
+      `Retirer ${theme.name} de tous les livres ?`,
+      [
+        { text: "Annuler", style: "cancel" },
+        {
+          text: "Supprimer",
+          style: "destructive",
+          onPress: () =>
+            runAction(async () => {
+              await deleteTheme(theme.name);
+              return `Theme supprime : ${theme.name}`;
+            }),
+        },
+      ]
+    );
+  };
+
+  const handleToggleSelected = (theme: Theme) => {
+    const next = selected.includes(theme.name)
+      ? selected.filter((name) => name !== theme.name)
+      : [...selected, theme.name];
+    setSelected(next);
+    if (next.length > 0 && !mergeTarget.trim()) {
+      setMergeTarget(next[0]);
+    }
+  };
+
+  const handleMerge = () => {
+    const target = mergeTarget.trim();
+    if (selected.length < 2 || !target) {
+      return;
+    }
+    runAction(async () => {
+      const merged = await mergeThemes(selected, target);
+      return `${selected.length} themes fusionnes dans ${merged}`;
+    });
+  };
+
+  const renderTheme = ({ item }: { item: Theme }) => {
+    const isSelected = selected.includes(item.name);
+    if (editingName === item.name) {
+      return (
+        <View style={[styles.row, styles.rowEditing]}>
+          <TextInput
+            value={renameValue}
+            onChangeText={setRenameValue}
+            onSubmitEditing={() => handleRename(item)}
+            style={styles.renameInput}
+            autoFocus
+            editable={!busy}
+          />
+          <Pressable
+            onPress={() => setEditingName(null)}
+            hitSlop={8}
+            accessibilityLabel="Annuler le renommage"
+          >
+            <MaterialIcons name="close" size={20} color="#475569" />
+          </Pressable>
+          <Pressable
+            onPress={() => handleRename(item)}
+            hitSlop={8}
+            disabled={busy}
+            accessibilityLabel="Valider le renommage"
+          >
+            <MaterialIcons name="check" size={20} color="#047857" />
+          </Pressable>
+        </View>
+      );
+    }
+    return (
+      <View style={[styles.row, isSelected && styles.rowSelected]}>
+        <Pressable
+          onPress={() => handleToggleSelected(item)}
+          style={styles.rowMain}
+          disabled={offline}
+          accessibilityLabel={`Selectionner ${item.name}`}
+        >
+          <MaterialIcons
+            name={isSelected ? "check-box" : "check-box-outline-blank"}
+            size={20}
+            color={isSelected ? "#2563eb" : "#94a3b8"}
+          />
+          <View style={styles.rowTexts}>
+            <Text style={styles.themeName}>{item.name}</Text>
+            <Text style={styles.themeCount}>{item.count} livre(s)</Text>
+          </View>
+        </Pressable>
+        <Pressable
+          onPress={() => handleStartRename(item)}
+          hitSlop={8}
+          disabled={offline || busy}
+          accessibilityLabel={`Renommer ${item.name}`}
+        >
+          <MaterialIcons name="edit" size={20} color="#475569" />
+        </Pressable>
+        <Pressable
+          onPress={() => handleDelete(item)}
+          hitSlop={8}
+          disabled={offline || busy}
+          accessibilityLabel={`Supprimer ${item.name}`}
+        >
+          <MaterialIcons name="delete-outline" size={20} color="#b91c1c" />
+        </Pressable>
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator size="large" color="#2563eb" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.screen}>
+      {offline ? (
+        <View style={styles.offlineBanner}>
+          <MaterialIcons name="wifi-off" size={16} color="#b91c1c" />
+          <Text style={styles.offlineText}>
+            Hors ligne : themes issus du cache, modification indisponible.
+          </Text>
+        </View>
+      ) : null}
+      <FlatList
+        data={themes}
+        keyExtractor={(item) => item.name}
+        renderItem={renderTheme}
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>Aucun theme pour le moment.</Text>
+        }
+      />
+      {selected.length >= 2 ? (
+        <View style={styles.mergeBar}>
+          <Text style={styles.mergeTitle}>
+            Fusionner {selected.length} themes dans :
+          </Text>
+          <View style={styles.mergeRow}>
+            <TextInput
+              value={mergeTarget}
+              onChangeText={setMergeTarget}
+              style={styles.mergeInput}
+              placeholder="Nom du theme final"
+              placeholderTextColor="#94a3b8"
+              editable={!busy}
+            />
+            <Pressable
+              onPress={handleMerge}
+              style={[
+                styles.mergeButton,
+                (busy || !mergeTarget.trim()) && styles.mergeButtonDisabled,
+              ]}
+              disabled={busy || !mergeTarget.trim()}
+            >
+              <Text style={styles.mergeButtonText}>
+                {busy ? "Fusion..." : "Fusionner"}
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+      ) : null}
+      {status ? (
+        <View style={styles.statusBanner}>
+          <Text style={styles.statusBannerText}>{status}</Text>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: "#f5f6fb",
+  },
+  center: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#f5f6fb",
+  },
+  offlineBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    margin: 16,
+    marginBottom: 0,
+    borderRadius: 12,
+    padding: 10,
+    backgroundColor: "#fee2e2",
+  },
+  offlineText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#b91c1c",
+  },
+  listContent: {
+    padding: 16,
+    gap: 10,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 14,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+  },
+  rowSelected: {
+    borderColor: "#2563eb",
+    backgroundColor: "#eff6ff",
+  },
+  rowEditing: {
+    borderColor: "#93c5fd",
+  },
+  rowMain: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  rowTexts: {
+    flex: 1,
+    gap: 2,
+  },
+  themeName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  themeCount: {
+    fontSize: 12,
+    color: "#64748b",
+  },
+  renameInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#d4d4d8",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    backgroundColor: "#f8fafc",
+  },
+  emptyText: {
+    textAlign: "center",
+    fontSize: 15,
+    color: "#6b7280",
+    marginTop: 24,
+  },
+  mergeBar: {
+    padding: 16,
+    gap: 10,
+    backgroundColor: "#fff",
+    borderTopWidth: 1,
+    borderTopColor: "#e2e8f0",
+  },
+  mergeTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  mergeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  mergeInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#d4d4d8",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    backgroundColor: "#f8fafc",
+  },
+  mergeButton: {
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: "#2563eb",
+  },
+  mergeButtonDisabled: {
+    backgroundColor: "#93c5fd",
+  },
+  mergeButtonText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  statusBanner: {
+    position: "absolute",
+    bottom: 24,
+    left: 20,
+    right: 20,
+    backgroundColor: "#1d4ed8",
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    shadowColor: "#0f172a",
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 4 },
+    elevation: 3,
+  },
+  statusBannerText: {
+    color: "#fff",
+    textAlign: "center",
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,44 @@
+import { Image, ImageStyle } from "expo-image";
+import { useEffect, useState } from "react";
+import { StyleProp } from "react-native";
+
+import { cacheCover, peekCachedCover } from "../services/CoverCache";
+
+// Neutral paper tone shown while the cover loads.
+const COVER_BLURHASH = "L6Pj0^jE.AyE_3t7t7R**0o#DgR4";
+
+type BookCoverProps = {
+  uri: string;
+  style: StyleProp<ImageStyle>;
+};
+
+export function BookCover({ uri, style }: BookCoverProps) {
+  const [cached, setCached] = useState(() => ({
+    uri,
+    local: peekCachedCover(uri),
+  }));
+  const localUri = cached.uri === uri ? cached.local : peekCachedCover(uri);
+
+  useEffect(() => {
+    let active = true;
+    cacheCover(uri).then((local) => {
+      if (active && local) {
+        setCached({ uri, local });
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, [uri]);
+
+  return (
+    <Image
+      source={{ uri: localUri ?? uri }}
+      placeholder={{ blurhash: COVER_BLURHASH }}
+      contentFit="cover"
+      transition={200}
+      recyclingKey={uri}
+      style={style}
+    />
+  );
+}
@@ -1,9 +1,6 @@
 ﻿import { Ionicons, MaterialIcons } from "@expo/vector-icons";
-import * as ImagePicker from "expo-image-picker";
-import { ReactNode, useCallback, useMemo, useState } from "react";
+import { ReactNode, useCallback, useEffect, useMemo, useState } from "react";
 import {
-  Alert,
-  Image,
   Pressable,
   ScrollView,
   StyleSheet,
@@ -13,36 +10,123 @@ import {
   View,
 } from "react-native";
 
-import { BookPayload } from "../services/BooksService";
+import { FieldErrors, isCanceledError } from "../services/ApiError";
+import {
+  BookPayload,
+  ReadingStatus,
+  getReadingStatus,
+} from "../services/BooksService";
+import { normalizeText } from "../services/LocalSearch";
+import {
+  OpenLibraryCandidate,
+  getCoverUrl,
+  normalizeIsbn,
+  pickIsbn,
+} from "../services/OpenLibraryService";
+import { withAutoRead } from "../services/ReadingProgress";
+import { READING_STATUSES, getStatusChanges } from "../services/ReadingStatus";
+import {
+  addTheme,
+  getCachedThemes,
+  getThemes,
+  isSameTheme,
+} from "../services/ThemesService";
+import { CoverPicker } from "./CoverPicker";
+import { StatusBadge } from "./StatusBadge";
+import { TitleSuggestions } from "./TitleSuggestions";
 
 type BookFormProps = {
   initialValues?: Partial<BookPayload>;
   onSubmit: (values: BookPayload) => Promise<void> | void;
   submitting?: boolean;
   submitLabel: string;
+  serverErrors?: FieldErrors | null;
   children?: ReactNode;
 };
 
-type FormError = {
+export type FormError = {
   name?: string;
   author?: string;
+  editor?: string;
   year?: string;
+  isbn?: string;
+  totalPages?: string;
+  currentPage?: string;
+  themes?: string;
+  general?: string;
+};
+
+const SERVER_FIELD_ALIASES: Record<string, keyof FormError> = {
+  name: "name",
+  title: "name",
+  author: "author",
+  editor: "editor",
+  publisher: "editor",
+  year: "year",
+  isbn: "isbn",
+  totalPages: "totalPages",
+  currentPage: "currentPage",
+  theme: "themes",
+  themes: "themes",
 };
 
+const MAX_THEME_SUGGESTIONS = 8;
+
+// Empty means "not set"; undefined flags an invalid value.
+function parsePageCount(text: string) {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const value = Number(trimmed);
+  return Number.isInteger(value) && value >= 0 ? value : undefined;
+}
+
+export function mapFieldErrors(fieldErrors: FieldErrors): FormError {
+  const formErrors: FormError = {};
+  const unmatched: string[] = [];
+  Object.entries(fieldErrors).forEach(([field, message]) => {
+    const key = SERVER_FIELD_ALIASES[field.replace(/^body\./, "")];
+    if (key) {
+      formErrors[key] = message;
+    } else {
+      unmatched.push(message);
+    }
+  });
+  if (unmatched.length > 0) {
+    formErrors.general = unmatched.join("\n");
+  }
+  return formErrors;
+}
+
 export function BookForm({
   initialValues,
   onSubmit,
   submitLabel,
   submitting = false,
+  serverErrors,
   children,
 }: BookFormProps) {
   const [name, setName] = useState(initialValues?.name ?? "");
+  const [titleQuery, setTitleQuery] = useState("");
+  const [workKey, setWorkKey] = useState(
+    initialValues?.openLibraryWorkKey ?? null
+  );
   const [author, setAuthor] = useState(initialValues?.author ?? "");
   const [editor, setEditor] = useState(initialValues?.editor ?? "");
   const [yearText, setYearText] = useState(
     initialValues?.year ? String(initialValues.year) : ""
   );
-  const [read, setRead] = useState(initialValues?.read ?? false);
+  const [isbnText, setIsbnText] = useState(initialValues?.isbn ?? "");
+  const [totalPagesText, setTotalPagesText] = useState(
+    initialValues?.totalPages ? String(initialValues.totalPages) : ""
+  );
+  const [currentPageText, setCurrentPageText] = useState(
+    initialValues?.currentPage ? String(initialValues.currentPage) : ""
+  );
+  const initialStatus = getReadingStatus(initialValues ?? {});
+  const [readingStatus, setReadingStatus] =
+    useState<ReadingStatus>(initialStatus);
   const [favorite, setFavorite] = useState(initialValues?.favorite ?? false);
   const initialRating =
     typeof initialValues?.rating === "number" &&
@@ -52,11 +136,97 @@ export function BookForm({
       : 0;
   const [rating, setRating] = useState(initialRating);
   const [cover, setCover] = useState<string | null>(initialValues?.cover ?? null);
+  const [uploading, setUploading] = useState(false);
+  const [themes, setThemes] = useState<string[]>(initialValues?.themes ?? []);
+  const [themeInput, setThemeInput] = useState("");
+  const [knownThemes, setKnownThemes] = useState<string[]>([]);
   const [errors, setErrors] = useState<FormError>({});
 
+  useEffect(() => {
+    const controller = new AbortController();
+    (async () => {
+      try {
+        const data = await getThemes({ signal: controller.signal });
+        setKnownThemes(data.map((theme) => theme.name));
+      } catch (error) {
+        if (isCanceledError(error)) {
+          return;
+        }
+        console.error("Erreur de chargement des themes", error);
+        const cached = await getCachedThemes();
+        setKnownThemes(cached.map((theme) => theme.name));
+      }
+    })();
+    return () => controller.abort();
+  }, []);
+
+  const themeSuggestions = useMemo(() => {
+    const query = normalizeText(themeInput);
+    return knownThemes
+      .filter(
+        (theme) =>
+          !themes.some((selected) => isSameTheme(selected, theme)) &&
+          (!query || normalizeText(theme).includes(query))
+      )
+      .slice(0, MAX_THEME_SUGGESTIONS);
+  }, [knownThemes, themeInput, themes]);
+
+  const canCreateTheme =
+    Boolean(themeInput.trim()) &&
+    !knownThemes.some((theme) => isSameTheme(theme, themeInput)) &&
+    !themes.some((theme) => isSameTheme(theme, themeInput));
+
+  const handleNameChange = useCallback((value: string) => {
+    setName(value);
+    setTitleQuery(value);
+  }, []);
+
+  const handleSelectCandidate = useCallback(
+    (candidate: OpenLibraryCandidate) => {
+      setTitleQuery("");
+      setName(candidate.title);
+      setWorkKey(candidate.key);
+      if (candidate.authors.length > 0) {
+        setAuthor(candidate.authors.join(", "));
+      }
+      if (candidate.publishers.length > 0) {
+        setEditor(candidate.publishers[0]);
+      }
+      if (candidate.firstPublishYear) {
+        setYearText(String(candidate.firstPublishYear));
+      }
+      const isbn = pickIsbn(candidate.isbns);
+      if (isbn) {
+        setIsbnText(isbn);
+      }
+      if (candidate.coverId) {
+        const coverUrl = getCoverUrl(candidate.coverId, "L");
+        setCover((current) => current ?? coverUrl);
+      }
+    },
+    []
+  );
+
+  const handleAddTheme = useCallback((value: string) => {
+    setThemes((prev) => addTheme(prev, value));
+    setThemeInput("");
+  }, []);
+
+  const handleRemoveTheme = useCallback((value: string) => {
+    setThemes((prev) => prev.filter((theme) => theme !== value));
+  }, []);
+
+  useEffect(() => {
+    if (serverErrors) {
+      setErrors(mapFieldErrors(serverErrors));
+    }
+  }, [serverErrors]);
+
   const canSubmit = useMemo(() => {
-    return Boolean(name.trim()) && Boolean(author.trim()) && !submitting;
-  }, [author, name, submitting]);
+    return (
+      Boolean(name.trim()) && Boolean(author.trim()) && !submitting && !uploading
+    );
+  }, [author, name, submitting, uploading]);
 
   const handleSubmit = () => {
     const nextErrors: FormError = {};
@@ -81,22 +251,57 @@ export function BookForm({
       }
     }
 
+    let parsedIsbn: string | null = null;
+    if (isbnText.trim()) {
+      parsedIsbn = normalizeIsbn(isbnText);
+      if (!parsedIsbn) {
+        nextErrors.isbn = "L'ISBN n'est pas valide.";
+      }
+    }
+
+    const parsedTotalPages = parsePageCount(totalPagesText);
+    if (parsedTotalPages === undefined) {
+      nextErrors.totalPages = "Le nombre de pages doit etre un entier positif.";
+    }
+    const parsedCurrentPage = parsePageCount(currentPageText);
+    if (parsedCurrentPage === undefined) {
+      nextErrors.currentPage = "La page actuelle doit etre un entier positif.";
+    } else if (
+      parsedCurrentPage !== null &&
+      parsedTotalPages &&
+      parsedCurrentPage > parsedTotalPages
+    ) {
+      nextErrors.currentPage = "La page actuelle depasse le nombre de pages.";
+    }
+
     setErrors(nextErrors);
 
     if (Object.keys(nextErrors).length > 0) {
       return;
     }
 
-    const payload: BookPayload = {
+    const payload: BookPayload = withAutoRead({
       name: trimmedName,
       author: trimmedAuthor,
       editor: editor.trim() ? editor.trim() : undefined,
       year: parsedYear,
-      read,
+      isbn: parsedIsbn,
+      openLibraryWorkKey: workKey,
+      ...(readingStatus === initialStatus
+        ? {
+            status: readingStatus,
+            read: readingStatus === "read",
+            startedAt: initialValues?.startedAt ?? null,
+            finishedAt: initialValues?.finishedAt ?? null,
+          }
+        : getStatusChanges(initialValues ?? {}, readingStatus)),
       favorite,
       rating,
       cover,
-    };
+      themes,
+      totalPages: parsedTotalPages ?? null,
+      currentPage: parsedCurrentPage ?? null,
+    });
 
     onSubmit(payload);
   };
@@ -106,38 +311,6 @@ export function BookForm({
     setRating(boundedValue);
   }, []);
 
-  const handlePickImage = useCallback(async () => {
-    try {
-      const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
-      if (!permission.granted) {
-        Alert.alert(
-          "Permission requise",
-          "Autorisez l'acces a la galerie pour selectionner une couverture."
-        );
-        return;
-      }
-
-      const result = await ImagePicker.launchImageLibraryAsync({
-        mediaTypes: ['images'],
-        allowsEditing: true,
-        aspect: [3, 4],
-        quality: 0.85,
-      });
-
-      if (result.canceled || !result.assets?.length) {
-        return;
-      }
-
-      setCover(result.assets[0].uri);
-    } catch (error) {
-      console.error(error);
-      Alert.alert(
-        "Erreur",
-        "Impossible de selectionner l'image. Merci de reessayer."
-      );
-    }
-  }, []);
-
   return (
     <ScrollView
       style={styles.wrapper}
@@ -149,12 +322,17 @@ export function BookForm({
           <Text style={styles.label}>Nom</Text>
           <TextInput
             value={name}
-            onChangeText={setName}
+            onChangeText={handleNameChange}
             style={styles.input}
             placeholder="Titre du livre"
             placeholderTextColor="#94a3b8"
             editable={!submitting}
           />
+          <TitleSuggestions
+            query={titleQuery}
+            onSelect={handleSelectCandidate}
+            onDismiss={() => setTitleQuery("")}
+          />
           {errors.name ? <Text style={styles.error}>{errors.name}</Text> : null}
         </View>
 
@@ -183,6 +361,9 @@ export function BookForm({
             placeholderTextColor="#94a3b8"
             editable={!submitting}
           />
+          {errors.editor ? (
+            <Text style={styles.error}>{errors.editor}</Text>
+          ) : null}
         </View>
 
         <View style={styles.field}>
@@ -199,9 +380,127 @@ export function BookForm({
           {errors.year ? <Text style={styles.error}>{errors.year}</Text> : null}
         </View>
 
-        <View style={[styles.field, styles.switchRow]}>
-          <Text style={styles.label}>Deja lu</Text>
-          <Switch value={read} onValueChange={setRead} disabled={submitting} />
+        <View style={styles.field}>
+          <Text style={styles.label}>ISBN</Text>
+          <TextInput
+            value={isbnText}
+            onChangeText={setIsbnText}
+            style={styles.input}
+            placeholder="978..."
+            placeholderTextColor="#94a3b8"
+            keyboardType="numeric"
+            autoCorrect={false}
+            editable={!submitting}
+          />
+          {errors.isbn ? <Text style={styles.error}>{errors.isbn}</Text> : null}
+        </View>
+
+        <View style={styles.pagesRow}>
+          <View style={[styles.field, styles.pagesField]}>
+            <Text style={styles.label}>Nombre de pages</Text>
+            <TextInput
+              value={totalPagesText}
+              onChangeText={setTotalPagesText}
+              style={styles.input}
+              placeholder="320"
+              placeholderTextColor="#94a3b8"
+              keyboardType="numeric"
+              editable={!submitting}
+            />
+            {errors.totalPages ? (
+              <Text style={styles.error}>{errors.totalPages}</Text>
+            ) : null}
+          </View>
+          <View style={[styles.field, styles.pagesField]}>
+            <Text style={styles.label}>Page actuelle</Text>
+            <TextInput
+              value={currentPageText}
+              onChangeText={setCurrentPageText}
+              style={styles.input}
+              placeholder="0"
+              placeholderTextColor="#94a3b8"
+              keyboardType="numeric"
+              editable={!submitting}
+            />
+            {errors.currentPage ? (
+              <Text style={styles.error}>{errors.currentPage}</Text>
+            ) : null}
+          </View>
+        </View>
+
+        <View style={styles.field}>
+          <Text style={styles.label}>Themes</Text>
+          {themes.length > 0 ? (
+            <View style={styles.themeChips}>
+              {themes.map((theme) => (
+                <Pressable
+                  key={theme}
+                  onPress={() => handleRemoveTheme(theme)}
+                  style={styles.themeChipSelected}
+                  disabled={submitting}
+                  accessibilityLabel={`Retirer le theme ${theme}`}
+                >
+                  <Text style={styles.themeChipSelectedText}>{theme}</Text>
+                  <MaterialIcons name="close" size={14} color="#fff" />
+                </Pressable>
+              ))}
+            </View>
+          ) : null}
+          <TextInput
+            value={themeInput}
+            onChangeText={setThemeInput}
+            onSubmitEditing={() => handleAddTheme(themeInput)}
+            style={styles.input}
+            placeholder="Rechercher ou creer un theme"
+            placeholderTextColor="#94a3b8"
+            returnKeyType="done"
+            editable={!submitting}
+          />
+          {themeSuggestions.length > 0 || canCreateTheme ? (
+            <View style={styles.themeChips}>
+              {canCreateTheme ? (
+                <Pressable
+                  onPress={() => handleAddTheme(themeInput)}
+                  style={[styles.themeChip, styles.themeChipCreate]}
+                  disabled={submitting}
+                >
+                  <MaterialIcons name="add" size={14} color="#2563eb" />
+                  <Text style={styles.themeChipText}>
+                    {`Creer "${themeInput.trim()}"`}
+                  </Text>
+                </Pressable>
+              ) : null}
+              {themeSuggestions.map((theme) => (
+                <Pressable
+                  key={theme}
+                  onPress={() => handleAddTheme(theme)}
+                  style={styles.themeChip}
+                  disabled={submitting}
+                >
+                  <Text style={styles.themeChipText}>{theme}</Text>
+                </Pressable>
+              ))}
+            </View>
+          ) : null}
+          {errors.themes ? (
+            <Text style={styles.error}>{errors.themes}</Text>
+          ) : null}
+        </View>
+
+        <View style={styles.field}>
+          <Text style={styles.label}>Statut de lecture</Text>
+          <View style={styles.statusRow}>
+            {READING_STATUSES.map(({ value }) => (
+              <StatusBadge
+                key={value}
+                status={value}
+                large
+                selected={readingStatus === value}
+                onPress={() => setReadingStatus(value)}
+                disabled={submitting}
+              />
+            ))}
+          </View>
         </View>
 
         <View style={[styles.field, styles.switchRow]}>
@@ -242,40 +541,24 @@ export function BookForm({
 
         <View style={styles.field}>
           <Text style={styles.label}>Couverture</Text>
-          <View style={styles.coverActions}>
-            <Pressable
-              style={[
-                styles.galleryButton,
-                submitting ? styles.galleryButtonDisabled : null,
-              ]}
-              onPress={handlePickImage}
-              disabled={submitting}
-            >
-              <MaterialIcons name="photo-library" size={16} color="#1f2937" />
-              <Text style={styles.galleryButtonText}>
-                Choisir dans la galerie
-              </Text>
-            </Pressable>
-          </View>
-          {cover ? (
-            <>
-              <Image source={{ uri: cover }} style={styles.coverImage} />
-              {!cover.startsWith("http") ? (
-                <Text style={styles.coverHint}>
-                  L'image importee sera chargee depuis votre appareil.
-                </Text>
-              ) : null}
-            </>
-          ) : (
-            <Text style={styles.coverHint}>
-              Selectionnez une image depuis votre galerie.
-            </Text>
-          )}
+          <CoverPicker
+            cover={cover}
+            onChange={setCover}
+            isbn={isbnText}
+            disabled={submitting}
+            onUploadingChange={setUploading}
+          />
         </View>
       </View>
 
       {children ? <View style={styles.extra}>{children}</View> : null}
 
+      {errors.general ? (
+        <Text style={[styles.error, styles.generalError]}>
+          {errors.general}
+        </Text>
+      ) : null}
+
       <Pressable
         style={[
           styles.submitButton,
@@ -315,6 +598,13 @@ const styles = StyleSheet.create({
   field: {
     gap: 6,
   },
+  pagesRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  pagesField: {
+    flex: 1,
+  },
   label: {
     fontSize: 15,
     fontWeight: "600",
@@ -329,53 +619,60 @@ const styles = StyleSheet.create({
     fontSize: 15,
     backgroundColor: "#f8fafc",
   },
-  switchRow: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "space-between",
-  },
-  starsRow: {
-    flexDirection: "row",
-    alignItems: "center",
-    gap: 8,
-    marginTop: 4,
-  },
-  coverActions: {
+  themeChips: {
     flexDirection: "row",
     flexWrap: "wrap",
-    alignItems: "center",
     gap: 8,
-    marginBottom: 8,
   },
-  galleryButton: {
+  themeChip: {
     flexDirection: "row",
     alignItems: "center",
-    gap: 6,
+    gap: 4,
     paddingHorizontal: 12,
     paddingVertical: 6,
-    borderRadius: 8,
+    borderRadius: 999,
     borderWidth: 1,
-    borderColor: "#d1d5db",
-    backgroundColor: "#f1f5f9",
+    borderColor: "#cbd5f5",
+    backgroundColor: "#fff",
   },
-  galleryButtonDisabled: {
-    opacity: 0.6,
+  themeChipCreate: {
+    borderStyle: "dashed",
+    borderColor: "#2563eb",
   },
-  galleryButtonText: {
-    color: "#1f2937",
-    fontWeight: "600",
+  themeChipText: {
     fontSize: 13,
+    fontWeight: "600",
+    color: "#1f2937",
   },
-  coverImage: {
-    width: 140,
-    height: 200,
-    borderRadius: 12,
-    backgroundColor: "#e2e8f0",
-    marginTop: 12,
+  themeChipSelected: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    backgroundColor: "#2563eb",
   },
-  coverHint: {
+  themeChipSelectedText: {
     fontSize: 13,
-    color: "#64748b",
+    fontWeight: "600",
+    color: "#fff",
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  statusRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  starsRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 4,
   },
   submitButton: {
     borderRadius: 12,
@@ -396,6 +693,9 @@ const styles = StyleSheet.create({
     color: "#b91c1c",
     fontSize: 13,
   },
+  generalError: {
+    marginTop: 16,
+  },
   extra: {
     gap: 16,
     marginTop: 20,
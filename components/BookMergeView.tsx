@@ -0,0 +1,231 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import { useMemo, useState } from "react";
+import { Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
+
+import {
+  MergeField,
+  formatFieldValue,
+  getFieldConflicts,
+} from "../services/BookConflicts";
+import { Book, BookPayload, toBookPayload } from "../services/BooksService";
+
+type BookMergeViewProps = {
+  base: Book;
+  local: BookPayload;
+  remote: Book;
+  onResolve: (values: BookPayload) => Promise<void> | void;
+  onCancel: () => void;
+  submitting?: boolean;
+};
+
+type Choice = "local" | "remote";
+
+export function BookMergeView({
+  base,
+  local,
+  remote,
+  onResolve,
+  onCancel,
+  submitting = false,
+}: BookMergeViewProps) {
+  const conflicts = useMemo(
+    () => getFieldConflicts(local, remote, base),
+    [base, local, remote]
+  );
+  const [choices, setChoices] = useState<Partial<Record<MergeField, Choice>>>(
+    () =>
+      Object.fromEntries(
+        conflicts.map((conflict) => [
+          conflict.field,
+          conflict.changedLocally ? "local" : "remote",
+        ])
+      )
+  );
+
+  const handleChoose = (field: MergeField, choice: Choice) => {
+    setChoices((prev) => ({ ...prev, [field]: choice }));
+  };
+
+  const handleResolve = () => {
+    const merged = toBookPayload(remote);
+    conflicts.forEach((conflict) => {
+      if (choices[conflict.field] === "local") {
+        Object.assign(merged, { [conflict.field]: conflict.local });
+      }
+    });
+    onResolve({ ...merged, read: merged.status === "read" });
+  };
+
+  return (
+    <ScrollView style={styles.wrapper} contentContainerStyle={styles.container}>
+      <View style={styles.warning}>
+        <MaterialIcons name="merge-type" size={20} color="#b45309" />
+        <View style={styles.warningTexts}>
+          <Text style={styles.warningTitle}>Modification concurrente</Text>
+          <Text style={styles.warningText}>
+            Ce livre a ete modifie depuis un autre appareil. Choisissez la
+            valeur a conserver pour chaque champ.
+          </Text>
+        </View>
+      </View>
+
+      {conflicts.length === 0 ? (
+        <Text style={styles.emptyText}>
+          Vos modifications sont identiques a la version du serveur.
+        </Text>
+      ) : (
+        conflicts.map((conflict) => (
+          <View style={styles.fieldCard} key={conflict.field}>
+            <Text style={styles.fieldLabel}>{conflict.label}</Text>
+            <View style={styles.optionsRow}>
+              {(["local", "remote"] as const).map((choice) => {
+                const selected = choices[conflict.field] === choice;
+                return (
+                  <Pressable
+                    key={choice}
+                    onPress={() => handleChoose(conflict.field, choice)}
+                    style={[styles.option, selected ? styles.optionActive : null]}
+                    disabled={submitting}
+                    accessibilityRole="radio"
+                    accessibilityState={{ checked: selected }}
+                  >
+                    <Text style={styles.optionTitle}>
+                      {choice === "local" ? "Ma version" : "Version serveur"}
+                    </Text>
+                    <Text style={styles.optionValue}>
+                      {formatFieldValue(conflict.field, conflict[choice])}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+        ))
+      )}
+
+      <Pressable
+        style={[styles.submitButton, submitting ? styles.buttonDisabled : null]}
+        onPress={handleResolve}
+        disabled={submitting}
+      >
+        <Text style={styles.submitText}>
+          {submitting ? "Enregistrement..." : "Enregistrer la fusion"}
+        </Text>
+      </Pressable>
+      <Pressable
+        style={styles.cancelButton}
+        onPress={onCancel}
+        disabled={submitting}
+      >
+        <Text style={styles.cancelText}>Reprendre l&apos;edition</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrapper: {
+    flex: 1,
+    backgroundColor: "#f5f6fb",
+  },
+  container: {
+    padding: 24,
+    gap: 16,
+  },
+  warning: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#fcd34d",
+    backgroundColor: "#fffbeb",
+    padding: 12,
+  },
+  warningTexts: {
+    flex: 1,
+    gap: 4,
+  },
+  warningTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#92400e",
+  },
+  warningText: {
+    fontSize: 13,
+    color: "#b45309",
+  },
+  emptyText: {
+    fontSize: 15,
+    color: "#475569",
+  },
+  fieldCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 16,
+    padding: 16,
+    gap: 10,
+    shadowColor: "#0f172a",
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 6 },
+    elevation: 2,
+  },
+  fieldLabel: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  optionsRow: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  option: {
+    flex: 1,
+    gap: 4,
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    backgroundColor: "#f8fafc",
+  },
+  optionActive: {
+    borderColor: "#2563eb",
+    backgroundColor: "#eff6ff",
+  },
+  optionTitle: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#64748b",
+  },
+  optionValue: {
+    fontSize: 14,
+    color: "#111827",
+  },
+  submitButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+    backgroundColor: "#2563eb",
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    backgroundColor: "#93c5fd",
+  },
+  submitText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#fff",
+  },
+  cancelButton: {
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: "center",
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    backgroundColor: "#fff",
+  },
+  cancelText: {
+    color: "#1f2937",
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,429 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import * as ImagePicker from "expo-image-picker";
+import {
+  ComponentProps,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { isCanceledError, isNetworkError } from "../services/ApiError";
+import {
+  isLocalCover,
+  prepareCover,
+  uploadCover,
+} from "../services/CoverService";
+import {
+  findCoverByIsbn,
+  getCoverUrl,
+  normalizeIsbn,
+} from "../services/OpenLibraryService";
+
+const PENDING_COVER_HINT =
+  "Couverture en attente d'envoi : elle sera transmise avec le livre.";
+const PICKER_OPTIONS: ImagePicker.ImagePickerOptions = {
+  mediaTypes: ["images"],
+  allowsEditing: true,
+  aspect: [3, 4],
+  quality: 0.85,
+};
+
+type CoverPickerProps = {
+  cover: string | null;
+  onChange: (cover: string | null) => void;
+  isbn: string;
+  disabled?: boolean;
+  onUploadingChange?: (uploading: boolean) => void;
+};
+
+type CoverActionProps = {
+  icon: ComponentProps<typeof MaterialIcons>["name"];
+  label: string;
+  onPress: () => void;
+  disabled?: boolean;
+  danger?: boolean;
+};
+
+function CoverAction({
+  icon,
+  label,
+  onPress,
+  disabled,
+  danger,
+}: CoverActionProps) {
+  return (
+    <Pressable
+      style={[styles.actionButton, disabled ? styles.actionDisabled : null]}
+      onPress={onPress}
+      disabled={disabled}
+    >
+      <MaterialIcons
+        name={icon}
+        size={16}
+        color={danger ? "#b91c1c" : "#1f2937"}
+      />
+      <Text style={[styles.actionText, danger ? styles.dangerText : null]}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
+
+// Turns a pasted value into an image URL: either a web address or an
+// OpenLibrary cover id.
+function parseCoverInput(value: string) {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return getCoverUrl(Number(trimmed), "L");
+  }
+  return /^https?:\/\/\S+$/.test(trimmed) ? trimmed : null;
+}
+
+export function CoverPicker({
+  cover,
+  onChange,
+  isbn,
+  disabled = false,
+  onUploadingChange,
+}: CoverPickerProps) {
+  const [progress, setProgress] = useState<number | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [urlOpen, setUrlOpen] = useState(false);
+  const [urlInput, setUrlInput] = useState("");
+  const uploadRef = useRef<AbortController | null>(null);
+
+  const uploading = progress !== null;
+  const busy = disabled || uploading || searching;
+
+  useEffect(() => () => uploadRef.current?.abort(), []);
+
+  useEffect(() => {
+    onUploadingChange?.(uploading);
+  }, [onUploadingChange, uploading]);
+
+  const uploadAsset = useCallback(
+    async (asset: ImagePicker.ImagePickerAsset) => {
+      setProgress(0);
+      try {
+        const prepared = await prepareCover(asset.uri, asset.width);
+        onChange(prepared);
+        const controller = new AbortController();
+        uploadRef.current = controller;
+        const url = await uploadCover(prepared, {
+          signal: controller.signal,
+          onProgress: setProgress,
+        });
+        onChange(url);
+      } catch (error) {
+        // Offline, the resized file is kept and uploaded with the book.
+        if (isCanceledError(error) || isNetworkError(error)) {
+          return;
+        }
+        console.error(error);
+        onChange(null);
+        Alert.alert("Erreur", (error as Error).message);
+      } finally {
+        uploadRef.current = null;
+        setProgress(null);
+      }
+    },
+    [onChange]
+  );
+
+  const handlePickImage = useCallback(async () => {
+    try {
+      const permission =
+        await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert(
+          "Permission requise",
+          "Autorisez l'acces a la galerie pour selectionner une couverture."
+        );
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync(PICKER_OPTIONS);
+      if (result.canceled || !result.assets?.length) {
+        return;
+      }
+      await uploadAsset(result.assets[0]);
+    } catch (error) {
+      console.error(error);
+      Alert.alert(
+        "Erreur",
+        "Impossible de selectionner l'image. Merci de reessayer."
+      );
+    }
+  }, [uploadAsset]);
+
+  const handleTakePhoto = useCallback(async () => {
+    try {
+      const permission = await ImagePicker.requestCameraPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert(
+          "Permission requise",
+          "Autorisez l'acces a la camera pour photographier la couverture."
+        );
+        return;
+      }
+
+      const result = await ImagePicker.launchCameraAsync(PICKER_OPTIONS);
+      if (result.canceled || !result.assets?.length) {
+        return;
+      }
+      await uploadAsset(result.assets[0]);
+    } catch (error) {
+      console.error(error);
+      Alert.alert(
+        "Erreur",
+        "Impossible de prendre la photo. Merci de reessayer."
+      );
+    }
+  }, [uploadAsset]);
+
+  const handleFetchOpenLibrary = useCallback(async () => {
+    const normalized = normalizeIsbn(isbn);
+    if (!normalized) {
+      Alert.alert(
+        "ISBN requis",
+        "Renseignez un ISBN valide pour chercher la couverture."
+      );
+      return;
+    }
+    try {
+      setSearching(true);
+      const url = await findCoverByIsbn(normalized);
+      if (!url) {
+        Alert.alert(
+          "Couverture introuvable",
+          "OpenLibrary ne propose pas de couverture pour cet ISBN."
+        );
+        return;
+      }
+      onChange(url);
+    } catch (error) {
+      console.error(error);
+      Alert.alert("Erreur", (error as Error).message);
+    } finally {
+      setSearching(false);
+    }
+  }, [isbn, onChange]);
+
+  const handleApplyUrl = useCallback(async () => {
+    const url = parseCoverInput(urlInput);
+    if (!url) {
+      Alert.alert(
+        "Adresse invalide",
+        "Collez une adresse http(s) ou un identifiant de couverture OpenLibrary."
+      );
+      return;
+    }
+    try {
+      setSearching(true);
+      await Image.getSize(url);
+      onChange(url);
+      setUrlInput("");
+      setUrlOpen(false);
+    } catch (error) {
+      console.error(error);
+      Alert.alert(
+        "Image inaccessible",
+        "Impossible de charger une image a cette adresse."
+      );
+    } finally {
+      setSearching(false);
+    }
+  }, [onChange, urlInput]);
+
+  const handleRemove = useCallback(() => {
+    uploadRef.current?.abort();
+    onChange(null);
+  }, [onChange]);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.actions}>
+        <CoverAction
+          icon="photo-library"
+          label="Galerie"
+          onPress={handlePickImage}
+          disabled={busy}
+        />
+        <CoverAction
+          icon="photo-camera"
+          label="Photo"
+          onPress={handleTakePhoto}
+          disabled={busy}
+        />
+        <CoverAction
+          icon="travel-explore"
+          label="OpenLibrary (ISBN)"
+          onPress={handleFetchOpenLibrary}
+          disabled={busy}
+        />
+        <CoverAction
+          icon="link"
+          label="Adresse"
+          onPress={() => setUrlOpen((prev) => !prev)}
+          disabled={busy}
+        />
+        {cover ? (
+          <CoverAction
+            icon="delete-outline"
+            label="Retirer"
+            onPress={handleRemove}
+            disabled={disabled || searching}
+            danger
+          />
+        ) : null}
+      </View>
+      {urlOpen ? (
+        <View style={styles.urlRow}>
+          <TextInput
+            value={urlInput}
+            onChangeText={setUrlInput}
+            onSubmitEditing={handleApplyUrl}
+            style={styles.urlInput}
+            placeholder="https://... ou identifiant OpenLibrary"
+            placeholderTextColor="#94a3b8"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            editable={!busy}
+          />
+          <Pressable
+            onPress={handleApplyUrl}
+            style={[styles.applyButton, busy ? styles.actionDisabled : null]}
+            disabled={busy}
+          >
+            <Text style={styles.applyText}>Utiliser</Text>
+          </Pressable>
+        </View>
+      ) : null}
+      {searching ? <ActivityIndicator size="small" color="#2563eb" /> : null}
+      {uploading ? (
+        <View style={styles.uploadRow}>
+          <ActivityIndicator size="small" color="#2563eb" />
+          <View style={styles.progressTrack}>
+            <View
+              style={[
+                styles.progressFill,
+                { width: `${Math.round(progress * 100)}%` },
+              ]}
+            />
+          </View>
+          <Text style={styles.hint}>{Math.round(progress * 100)}%</Text>
+        </View>
+      ) : null}
+      {cover ? (
+        <>
+          <Image source={{ uri: cover }} style={styles.coverImage} />
+          {isLocalCover(cover) && !uploading ? (
+            <Text style={styles.hint}>{PENDING_COVER_HINT}</Text>
+          ) : null}
+        </>
+      ) : (
+        <Text style={styles.hint}>
+          Choisissez une image, prenez une photo ou utilisez OpenLibrary.
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  actions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: 8,
+  },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    backgroundColor: "#f1f5f9",
+  },
+  actionDisabled: {
+    opacity: 0.6,
+  },
+  actionText: {
+    color: "#1f2937",
+    fontWeight: "600",
+    fontSize: 13,
+  },
+  dangerText: {
+    color: "#b91c1c",
+  },
+  urlRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  urlInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#d4d4d8",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    backgroundColor: "#f8fafc",
+  },
+  applyButton: {
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+    backgroundColor: "#2563eb",
+  },
+  applyText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  coverImage: {
+    width: 140,
+    height: 200,
+    borderRadius: 12,
+    backgroundColor: "#e2e8f0",
+    marginTop: 4,
+  },
+  hint: {
+    fontSize: 13,
+    color: "#64748b",
+  },
+  uploadRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 999,
+    backgroundColor: "#e2e8f0",
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    backgroundColor: "#2563eb",
+  },
+});
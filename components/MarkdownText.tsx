@@ -0,0 +1,167 @@
+import { ReactNode } from "react";
+import { StyleProp, StyleSheet, Text, TextStyle, View } from "react-native";
+
+type MarkdownTextProps = {
+  content: string;
+  style?: StyleProp<TextStyle>;
+};
+
+type Block =
+  | { type: "heading" | "quote" | "paragraph"; text: string }
+  | { type: "item"; text: string; marker: string };
+
+const INLINE_PATTERN =
+  /(\*\*[^*]+\*\*|__[^_]+__|\*[^*\s][^*]*\*|_[^_\s][^_]*_|`[^`]+`)/g;
+
+// Supports the small subset people type in reading notes: headings, quotes,
+// lists, bold, italic and inline code.
+function parseBlocks(content: string): Block[] {
+  const blocks: Block[] = [];
+  content.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trimEnd();
+    const heading = line.match(/^#{1,3}\s+(.*)$/);
+    const quote = line.match(/^>\s?(.*)$/);
+    const bullet = line.match(/^\s*[-*+]\s+(.*)$/);
+    const ordered = line.match(/^\s*(\d+)[.)]\s+(.*)$/);
+    const previous = blocks[blocks.length - 1];
+
+    if (!line.trim()) {
+      blocks.push({ type: "paragraph", text: "" });
+    } else if (heading) {
+      blocks.push({ type: "heading", text: heading[1] });
+    } else if (quote) {
+      if (previous?.type === "quote") {
+        previous.text = `${previous.text}\n${quote[1]}`;
+      } else {
+        blocks.push({ type: "quote", text: quote[1] });
+      }
+    } else if (bullet) {
+      blocks.push({ type: "item", text: bullet[1], marker: "•" });
+    } else if (ordered) {
+      blocks.push({ type: "item", text: ordered[2], marker: `${ordered[1]}.` });
+    } else if (previous?.type === "paragraph" && previous.text) {
+      previous.text = `${previous.text}\n${line}`;
+    } else {
+      blocks.push({ type: "paragraph", text: line });
+    }
+  });
+  return blocks.filter((block) => block.text);
+}
+
+function renderInline(text: string): ReactNode[] {
+  return text
+    .split(INLINE_PATTERN)
+    .filter(Boolean)
+    .map((part, index) => {
+      if (
+        (part.startsWith("**") && part.endsWith("**")) ||
+        (part.startsWith("__") && part.endsWith("__"))
+      ) {
+        return (
+          <Text key={index} style={styles.bold}>
+            {part.slice(2, -2)}
+          </Text>
+        );
+      }
+      if (part.startsWith("`") && part.endsWith("`")) {
+        return (
+          <Text key={index} style={styles.code}>
+            {part.slice(1, -1)}
+          </Text>
+        );
+      }
+      if (
+        part.length > 2 &&
+        ((part.startsWith("*") && part.endsWith("*")) ||
+          (part.startsWith("_") && part.endsWith("_")))
+      ) {
+        return (
+          <Text key={index} style={styles.italic}>
+            {part.slice(1, -1)}
+          </Text>
+        );
+      }
+      return part;
+    });
+}
+
+export function MarkdownText({ content, style }: MarkdownTextProps) {
+  const blocks = parseBlocks(content);
+
+  return (
+    <View style={styles.container}>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case "heading":
+            return (
+              <Text key={index} style={[style, styles.heading]}>
+                {renderInline(block.text)}
+              </Text>
+            );
+          case "quote":
+            return (
+              <View key={index} style={styles.quote}>
+                <Text style={[style, styles.quoteText]}>
+                  {renderInline(block.text)}
+                </Text>
+              </View>
+            );
+          case "item":
+            return (
+              <View key={index} style={styles.item}>
+                <Text style={[style, styles.marker]}>{block.marker}</Text>
+                <Text style={[style, styles.itemText]}>
+                  {renderInline(block.text)}
+                </Text>
+              </View>
+            );
+          case "paragraph":
+            return (
+              <Text key={index} style={style}>
+                {renderInline(block.text)}
+              </Text>
+            );
+        }
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  heading: {
+    fontWeight: "700",
+    fontSize: 16,
+  },
+  quote: {
+    borderLeftWidth: 3,
+    borderLeftColor: "#93c5fd",
+    paddingLeft: 10,
+  },
+  quoteText: {
+    fontStyle: "italic",
+    color: "#334155",
+  },
+  item: {
+    flexDirection: "row",
+    gap: 6,
+  },
+  marker: {
+    minWidth: 14,
+  },
+  itemText: {
+    flex: 1,
+  },
+  bold: {
+    fontWeight: "700",
+  },
+  italic: {
+    fontStyle: "italic",
+  },
+  code: {
+    fontFamily: "monospace",
+    backgroundColor: "#e2e8f0",
+  },
+});
@@ -0,0 +1,886 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import {
+  Dispatch,
+  SetStateAction,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  Alert,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { isNetworkError } from "../services/ApiError";
+import {
+  Note,
+  NoteInput,
+  NoteKind,
+  addBookNote,
+  deleteBookNote,
+  updateBookNote,
+} from "../services/BooksService";
+import {
+  isLocalBookId,
+  isQueuedNote,
+  queueNote,
+  queueNoteDelete,
+  queueNoteUpdate,
+} from "../services/MutationQueue";
+import { removeCachedNote, updateCachedNote } from "../services/OfflineStorage";
+import {
+  NOTE_KINDS,
+  collectTags,
+  filterNotes,
+  formatPageRange,
+  formatTags,
+  getNoteKindLabel,
+  parseTags,
+  toNoteInput,
+} from "../services/ReadingNotes";
+import { MarkdownText } from "./MarkdownText";
+
+const UNDO_DELAY_MS = 5000;
+const NOTE_MAX_LENGTH = 250;
+
+type NotesSectionProps = {
+  bookId: string;
+  notes: Note[];
+  onNotesChange: Dispatch<SetStateAction<Note[]>>;
+  onStatus: (message: string) => void;
+  placeholder?: string;
+};
+
+type NoteDraft = {
+  content: string;
+  kind: NoteKind | null;
+  pageStart: string;
+  pageEnd: string;
+  tags: string;
+};
+
+type NoteFieldsProps = {
+  draft: NoteDraft;
+  onChange: (draft: NoteDraft) => void;
+  editable: boolean;
+  placeholder?: string;
+  autoFocus?: boolean;
+};
+
+type UndoAction = {
+  message: string;
+  undo: () => void;
+  commit?: () => void;
+};
+
+const EMPTY_DRAFT: NoteDraft = {
+  content: "",
+  kind: null,
+  pageStart: "",
+  pageEnd: "",
+  tags: "",
+};
+
+function toDraft(note: Note): NoteDraft {
+  return {
+    content: note.content,
+    kind: note.kind ?? null,
+    pageStart: note.pageStart ? String(note.pageStart) : "",
+    pageEnd: note.pageEnd ? String(note.pageEnd) : "",
+    tags: formatTags(note.tags),
+  };
+}
+
+function parsePage(value: string) {
+  const page = Number.parseInt(value, 10);
+  return Number.isFinite(page) && page > 0 ? page : null;
+}
+
+function validateDraft(draft: NoteDraft): NoteInput | string {
+  const content = draft.content.trim();
+  if (!content) {
+    return "Une note ne peut pas etre vide.";
+  }
+  const pageStart = parsePage(draft.pageStart);
+  const pageEnd = parsePage(draft.pageEnd);
+  if (pageStart && pageEnd && pageEnd < pageStart) {
+    return "La page de fin doit suivre la page de debut.";
+  }
+  return {
+    content,
+    kind: draft.kind,
+    pageStart,
+    pageEnd,
+    tags: parseTags(draft.tags),
+  };
+}
+
+function isSameInput(a: NoteInput, b: NoteInput) {
+  return JSON.stringify(toNoteInput(a)) === JSON.stringify(toNoteInput(b));
+}
+
+function formatNoteDate(value: string) {
+  return new Date(value).toLocaleDateString("fr-FR", {
+    day: "2-digit",
+    month: "long",
+    year: "numeric",
+  });
+}
+
+function isEditedNote(note: Note): note is Note & { updatedAt: string } {
+  return Boolean(note.updatedAt && note.updatedAt !== note.dateISO);
+}
+
+async function canReachServer(note: Note) {
+  return !isLocalBookId(note.bookId) && !(await isQueuedNote(note.id));
+}
+
+async function sendNoteUpdate(note: Note, input: NoteInput) {
+  if (await canReachServer(note)) {
+    try {
+      const updated = await updateBookNote(note.bookId, note.id, input);
+      await updateCachedNote(updated);
+      return { note: updated, queued: false };
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        throw error;
+      }
+    }
+  }
+  await queueNoteUpdate(note.bookId, note.id, input);
+  const updated = { ...note, ...input, updatedAt: new Date().toISOString() };
+  await updateCachedNote(updated);
+  return { note: updated, queued: true };
+}
+
+async function sendNoteDelete(note: Note) {
+  if (await canReachServer(note)) {
+    try {
+      await deleteBookNote(note.bookId, note.id);
+      await removeCachedNote(note.id);
+      return false;
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        throw error;
+      }
+    }
+  }
+  await queueNoteDelete(note.bookId, note.id);
+  await removeCachedNote(note.id);
+  return true;
+}
+
+function NoteFields({
+  draft,
+  onChange,
+  editable,
+  placeholder,
+  autoFocus,
+}: NoteFieldsProps) {
+  const update = (changes: Partial<NoteDraft>) => {
+    onChange({ ...draft, ...changes });
+  };
+
+  return (
+    <View style={styles.fields}>
+      <View style={styles.chipsRow}>
+        {NOTE_KINDS.map(({ kind, label }) => {
+          const selected = draft.kind === kind;
+          return (
+            <Pressable
+              key={kind}
+              onPress={() => update({ kind: selected ? null : kind })}
+              style={[styles.chip, selected && styles.chipActive]}
+              disabled={!editable}
+            >
+              <Text
+                style={[styles.chipText, selected && styles.chipTextActive]}
+              >
+                {label}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+      <TextInput
+        value={draft.content}
+        onChangeText={(content) => update({ content })}
+        placeholder={placeholder}
+        placeholderTextColor="#94a3b8"
+        style={styles.noteInput}
+        multiline
+        autoFocus={autoFocus}
+        maxLength={NOTE_MAX_LENGTH}
+        editable={editable}
+      />
+      <View style={styles.pagesRow}>
+        <TextInput
+          value={draft.pageStart}
+          onChangeText={(pageStart) => update({ pageStart })}
+          placeholder="Page"
+          placeholderTextColor="#94a3b8"
+          keyboardType="number-pad"
+          style={[styles.smallInput, styles.pageInput]}
+          editable={editable}
+        />
+        <Text style={styles.pagesSeparator}>a</Text>
+        <TextInput
+          value={draft.pageEnd}
+          onChangeText={(pageEnd) => update({ pageEnd })}
+          placeholder="Fin (optionnel)"
+          placeholderTextColor="#94a3b8"
+          keyboardType="number-pad"
+          style={[styles.smallInput, styles.pageInput]}
+          editable={editable}
+        />
+      </View>
+      <TextInput
+        value={draft.tags}
+        onChangeText={(tags) => update({ tags })}
+        placeholder="Tags, separes par des virgules"
+        placeholderTextColor="#94a3b8"
+        autoCapitalize="none"
+        style={styles.smallInput}
+        editable={editable}
+      />
+    </View>
+  );
+}
+
+export function NotesSection({
+  bookId,
+  notes,
+  onNotesChange,
+  onStatus,
+  placeholder = "Ajouter une note (max 250 caracteres)",
+}: NotesSectionProps) {
+  const [newDraft, setNewDraft] = useState<NoteDraft>(EMPTY_DRAFT);
+  const [noteSubmitting, setNoteSubmitting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<NoteDraft>(EMPTY_DRAFT);
+  const [editSubmitting, setEditSubmitting] = useState(false);
+  const [undoAction, setUndoAction] = useState<UndoAction | null>(null);
+  const [kindFilter, setKindFilter] = useState<NoteKind | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const undoRef = useRef<UndoAction | null>(null);
+
+  const availableTags = useMemo(() => collectTags(notes), [notes]);
+  const activeTag =
+    tagFilter && availableTags.includes(tagFilter) ? tagFilter : null;
+  const visibleNotes = useMemo(
+    () => filterNotes(notes, { kind: kindFilter, tag: activeTag }),
+    [activeTag, kindFilter, notes]
+  );
+
+  const replaceNote = useCallback(
+    (next: Note) => {
+      onNotesChange((prev) =>
+        prev.map((item) => (item.id === next.id ? next : item))
+      );
+    },
+    [onNotesChange]
+  );
+
+  // Commits the action currently offered for undo, if any.
+  const settleUndo = useCallback(() => {
+    const current = undoRef.current;
+    undoRef.current = null;
+    setUndoAction(null);
+    current?.commit?.();
+  }, []);
+
+  const offerUndo = useCallback(
+    (action: UndoAction) => {
+      settleUndo();
+      undoRef.current = action;
+      setUndoAction(action);
+    },
+    [settleUndo]
+  );
+
+  useEffect(() => {
+    if (!undoAction) {
+      return;
+    }
+    const timer = setTimeout(settleUndo, UNDO_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [settleUndo, undoAction]);
+
+  useEffect(() => () => settleUndo(), [settleUndo]);
+
+  const handleUndo = useCallback(() => {
+    const current = undoRef.current;
+    undoRef.current = null;
+    setUndoAction(null);
+    current?.undo();
+  }, []);
+
+  const handleAddNote = useCallback(async () => {
+    if (!newDraft.content.trim()) {
+      onStatus("Veuillez saisir du texte pour ajouter une note.");
+      return;
+    }
+    const input = validateDraft(newDraft);
+    if (typeof input === "string") {
+      onStatus(input);
+      return;
+    }
+    try {
+      setNoteSubmitting(true);
+      if (!isLocalBookId(bookId)) {
+        try {
+          const created = await addBookNote(bookId, input);
+          onNotesChange((prev) => [created, ...prev]);
+          setNewDraft(EMPTY_DRAFT);
+          onStatus("Note ajoutee avec succes.");
+          return;
+        } catch (error) {
+          if (!isNetworkError(error)) {
+            throw error;
+          }
+        }
+      }
+      const queued = await queueNote(bookId, input);
+      onNotesChange((prev) => [
+        {
+          ...input,
+          id: queued.id,
+          bookId,
+          dateISO: new Date(queued.createdAt).toISOString(),
+        },
+        ...prev,
+      ]);
+      setNewDraft(EMPTY_DRAFT);
+      onStatus("Note enregistree, en attente de synchro.");
+    } catch (error) {
+      console.error(error);
+      Alert.alert("Erreur", (error as Error).message);
+    } finally {
+      setNoteSubmitting(false);
+    }
+  }, [bookId, newDraft, onNotesChange, onStatus]);
+
+  const handleStartEdit = useCallback((note: Note) => {
+    setEditingId(note.id);
+    setEditDraft(toDraft(note));
+  }, []);
+
+  const handleCancelEdit = useCallback(() => {
+    setEditingId(null);
+    setEditDraft(EMPTY_DRAFT);
+  }, []);
+
+  const restoreContent = useCallback(
+    async (current: Note, previous: Note) => {
+      try {
+        const result = await sendNoteUpdate(current, toNoteInput(previous));
+        replaceNote(result.note);
+        onStatus("Modification annulee.");
+      } catch (error) {
+        console.error(error);
+        Alert.alert("Erreur", (error as Error).message);
+      }
+    },
+    [onStatus, replaceNote]
+  );
+
+  const handleSaveEdit = useCallback(
+    async (note: Note) => {
+      const input = validateDraft(editDraft);
+      if (typeof input === "string") {
+        onStatus(input);
+        return;
+      }
+      if (isSameInput(input, note)) {
+        handleCancelEdit();
+        return;
+      }
+      try {
+        setEditSubmitting(true);
+        const result = await sendNoteUpdate(note, input);
+        replaceNote(result.note);
+        handleCancelEdit();
+        offerUndo({
+          message: result.queued
+            ? "Note modifiee, en attente de synchro."
+            : "Note modifiee.",
+          undo: () => {
+            void restoreContent(result.note, note);
+          },
+        });
+      } catch (error) {
+        console.error(error);
+        Alert.alert("Erreur", (error as Error).message);
+      } finally {
+        setEditSubmitting(false);
+      }
+    },
+    [
+      editDraft,
+      handleCancelEdit,
+      offerUndo,
+      onStatus,
+      replaceNote,
+      restoreContent,
+    ]
+  );
+
+  const handleDeleteNote = useCallback(
+    (note: Note) => {
+      const index = Math.max(
+        notes.findIndex((item) => item.id === note.id),
+        0
+      );
+      const restore = () => {
+        onNotesChange((prev) => {
+          const next = [...prev];
+          next.splice(Math.min(index, next.length), 0, note);
+          return next;
+        });
+      };
+      onNotesChange((prev) => prev.filter((item) => item.id !== note.id));
+      if (editingId === note.id) {
+        handleCancelEdit();
+      }
+      // The request is only sent once the undo delay is over.
+      offerUndo({
+        message: "Note supprimee.",
+        undo: restore,
+        commit: () => {
+          sendNoteDelete(note)
+            .then((queued) => {
+              if (queued) {
+                onStatus("Suppression enregistree, en attente de synchro.");
+              }
+            })
+            .catch((error) => {
+              console.error(error);
+              restore();
+              Alert.alert("Erreur", (error as Error).message);
+            });
+        },
+      });
+    },
+    [editingId, handleCancelEdit, notes, offerUndo, onNotesChange, onStatus]
+  );
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.sectionTitle}>Notes</Text>
+      {notes.length > 0 ? (
+        <View style={styles.filters}>
+          <View style={styles.chipsRow}>
+            <Pressable
+              onPress={() => setKindFilter(null)}
+              style={[styles.chip, !kindFilter && styles.chipActive]}
+            >
+              <Text
+                style={[styles.chipText, !kindFilter && styles.chipTextActive]}
+              >
+                Toutes
+              </Text>
+            </Pressable>
+            {NOTE_KINDS.map(({ kind, label }) => {
+              const selected = kindFilter === kind;
+              return (
+                <Pressable
+                  key={kind}
+                  onPress={() => setKindFilter(selected ? null : kind)}
+                  style={[styles.chip, selected && styles.chipActive]}
+                >
+                  <Text
+                    style={[styles.chipText, selected && styles.chipTextActive]}
+                  >
+                    {label}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          {availableTags.length > 0 ? (
+            <View style={styles.chipsRow}>
+              {availableTags.map((tag) => {
+                const selected = activeTag === tag;
+                return (
+                  <Pressable
+                    key={tag}
+                    onPress={() => setTagFilter(selected ? null : tag)}
+                    style={[styles.tagChip, selected && styles.chipActive]}
+                  >
+                    <Text
+                      style={[
+                        styles.tagText,
+                        selected && styles.chipTextActive,
+                      ]}
+                    >
+                      #{tag}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          ) : null}
+        </View>
+      ) : null}
+      {notes.length === 0 ? (
+        <Text style={styles.emptyNotes}>Aucune note pour le moment.</Text>
+      ) : visibleNotes.length === 0 ? (
+        <Text style={styles.emptyNotes}>
+          Aucune note ne correspond aux filtres.
+        </Text>
+      ) : (
+        visibleNotes.map((note) => {
+          if (editingId === note.id) {
+            return (
+              <View style={[styles.note, styles.noteEditing]} key={note.id}>
+                <NoteFields
+                  draft={editDraft}
+                  onChange={setEditDraft}
+                  editable={!editSubmitting}
+                  autoFocus
+                />
+                <View style={styles.editActions}>
+                  <Pressable
+                    onPress={handleCancelEdit}
+                    style={styles.editCancel}
+                    disabled={editSubmitting}
+                  >
+                    <Text style={styles.editCancelText}>Annuler</Text>
+                  </Pressable>
+                  <Pressable
+                    onPress={() => handleSaveEdit(note)}
+                    style={[
+                      styles.editSave,
+                      (editSubmitting || !editDraft.content.trim()) &&
+                        styles.noteButtonDisabled,
+                    ]}
+                    disabled={editSubmitting || !editDraft.content.trim()}
+                  >
+                    <Text style={styles.noteButtonText}>
+                      {editSubmitting ? "Enregistrement..." : "Enregistrer"}
+                    </Text>
+                  </Pressable>
+                </View>
+              </View>
+            );
+          }
+          const kindLabel = getNoteKindLabel(note.kind);
+          const pages = formatPageRange(note);
+          return (
+            <View
+              style={[styles.note, note.kind === "quote" && styles.noteQuote]}
+              key={note.id}
+            >
+              <View style={styles.noteHeader}>
+                <View style={styles.noteMeta}>
+                  {kindLabel ? (
+                    <Text style={styles.kindBadge}>{kindLabel}</Text>
+                  ) : null}
+                  {pages ? <Text style={styles.pageBadge}>{pages}</Text> : null}
+                  <Text style={styles.noteDate}>
+                    {formatNoteDate(note.dateISO)}
+                    {isEditedNote(note)
+                      ? ` (modifiee le ${formatNoteDate(note.updatedAt)})`
+                      : ""}
+                  </Text>
+                </View>
+                <View style={styles.noteActions}>
+                  <Pressable
+                    onPress={() => handleStartEdit(note)}
+                    hitSlop={8}
+                    accessibilityLabel="Modifier la note"
+                  >
+                    <MaterialIcons name="edit" size={18} color="#475569" />
+                  </Pressable>
+                  <Pressable
+                    onPress={() => handleDeleteNote(note)}
+                    hitSlop={8}
+                    accessibilityLabel="Supprimer la note"
+                  >
+                    <MaterialIcons
+                      name="delete-outline"
+                      size={18}
+                      color="#b91c1c"
+                    />
+                  </Pressable>
+                </View>
+              </View>
+              <MarkdownText content={note.content} style={styles.noteContent} />
+              {note.tags && note.tags.length > 0 ? (
+                <View style={styles.chipsRow}>
+                  {note.tags.map((tag) => (
+                    <Pressable
+                      key={tag}
+                      onPress={() => setTagFilter(tag)}
+                      style={styles.tagChip}
+                    >
+                      <Text style={styles.tagText}>#{tag}</Text>
+                    </Pressable>
+                  ))}
+                </View>
+              ) : null}
+            </View>
+          );
+        })
+      )}
+      {undoAction ? (
+        <View style={styles.undoBar}>
+          <Text style={styles.undoText}>{undoAction.message}</Text>
+          <Pressable onPress={handleUndo} hitSlop={8}>
+            <Text style={styles.undoButton}>Annuler</Text>
+          </Pressable>
+        </View>
+      ) : null}
+      <View style={styles.noteComposer}>
+        <NoteFields
+          draft={newDraft}
+          onChange={setNewDraft}
+          editable={!noteSubmitting}
+          placeholder={placeholder}
+        />
+        <Text style={styles.formatHint}>
+          Mise en forme : **gras**, *italique*, &gt; citation, - liste
+        </Text>
+        <Pressable
+          onPress={handleAddNote}
+          style={[
+            styles.noteButton,
+            (noteSubmitting || !newDraft.content.trim()) &&
+              styles.noteButtonDisabled,
+          ]}
+          disabled={noteSubmitting || !newDraft.content.trim()}
+        >
+          <Text style={styles.noteButtonText}>
+            {noteSubmitting ? "Ajout..." : "Ajouter une note"}
+          </Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: "#fff",
+    borderRadius: 18,
+    padding: 20,
+    shadowColor: "#0f172a",
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 6 },
+    elevation: 2,
+    gap: 16,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  emptyNotes: {
+    fontSize: 15,
+    color: "#6b7280",
+  },
+  note: {
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+    borderRadius: 12,
+    padding: 12,
+    gap: 6,
+    backgroundColor: "#f8fafc",
+  },
+  noteEditing: {
+    borderColor: "#93c5fd",
+    gap: 10,
+  },
+  noteQuote: {
+    borderLeftWidth: 4,
+    borderLeftColor: "#2563eb",
+  },
+  noteMeta: {
+    flex: 1,
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: 6,
+  },
+  kindBadge: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#1d4ed8",
+    backgroundColor: "#dbeafe",
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    overflow: "hidden",
+  },
+  pageBadge: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#334155",
+    backgroundColor: "#e2e8f0",
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    overflow: "hidden",
+  },
+  filters: {
+    gap: 8,
+  },
+  fields: {
+    gap: 10,
+  },
+  chipsRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#cbd5f5",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: "#fff",
+  },
+  chipActive: {
+    backgroundColor: "#2563eb",
+    borderColor: "#2563eb",
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  chipTextActive: {
+    color: "#fff",
+  },
+  tagChip: {
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    backgroundColor: "#eef2ff",
+  },
+  tagText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#4338ca",
+  },
+  pagesRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  pagesSeparator: {
+    color: "#64748b",
+  },
+  pageInput: {
+    flex: 1,
+  },
+  smallInput: {
+    borderWidth: 1,
+    borderColor: "#d4d4d8",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    backgroundColor: "#f8fafc",
+  },
+  formatHint: {
+    fontSize: 12,
+    color: "#64748b",
+  },
+  noteHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  noteDate: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#64748b",
+  },
+  noteActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 14,
+  },
+  noteContent: {
+    fontSize: 15,
+    color: "#1f2937",
+  },
+  editActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 10,
+  },
+  editCancel: {
+    borderRadius: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    backgroundColor: "#fff",
+  },
+  editCancelText: {
+    color: "#1f2937",
+    fontWeight: "600",
+  },
+  editSave: {
+    borderRadius: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    backgroundColor: "#2563eb",
+  },
+  undoBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    backgroundColor: "#1f2937",
+  },
+  undoText: {
+    flex: 1,
+    color: "#f8fafc",
+    fontSize: 14,
+  },
+  undoButton: {
+    color: "#93c5fd",
+    fontWeight: "700",
+  },
+  noteComposer: {
+    gap: 12,
+  },
+  noteInput: {
+    minHeight: 80,
+    borderWidth: 1,
+    borderColor: "#d4d4d8",
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 15,
+    backgroundColor: "#f8fafc",
+    textAlignVertical: "top",
+  },
+  noteButton: {
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: "center",
+    backgroundColor: "#2563eb",
+  },
+  noteButtonDisabled: {
+    backgroundColor: "#93c5fd",
+  },
+  noteButtonText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,520 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Linking,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { isCanceledError } from "../services/ApiError";
+import { Book } from "../services/BooksService";
+import {
+  OpenLibraryCandidate,
+  OpenLibraryWork,
+  fetchWorkDetails,
+  getCachedWorkDetails,
+  getWorkUrl,
+  searchBooks,
+} from "../services/OpenLibraryService";
+
+const MAX_SUBJECTS = 10;
+
+type OpenLibraryPanelProps = {
+  book: Book;
+  onLinkWork: (workKey: string | null) => Promise<void>;
+};
+
+function formatLifespan(work: OpenLibraryWork) {
+  if (!work.author?.birthDate) {
+    return null;
+  }
+  return work.author.deathDate
+    ? `${work.author.birthDate} - ${work.author.deathDate}`
+    : `Ne(e) en ${work.author.birthDate}`;
+}
+
+export function OpenLibraryPanel({ book, onLinkWork }: OpenLibraryPanelProps) {
+  const linkedKey = book.openLibraryWorkKey ?? null;
+  const [suggestion, setSuggestion] = useState<OpenLibraryCandidate | null>(
+    null
+  );
+  const [work, setWork] = useState<OpenLibraryWork | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  const [picking, setPicking] = useState(false);
+  const [pickerQuery, setPickerQuery] = useState(book.name);
+  const [pickerResults, setPickerResults] = useState<OpenLibraryCandidate[]>(
+    []
+  );
+  const [pickerLoading, setPickerLoading] = useState(false);
+  const [linking, setLinking] = useState(false);
+  const [offline, setOffline] = useState(false);
+
+  const activeKey = linkedKey ?? suggestion?.key ?? null;
+
+  useEffect(() => {
+    if (linkedKey) {
+      setSuggestion(null);
+      return;
+    }
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+    (async () => {
+      try {
+        const [match] = await searchBooks(`${book.name} ${book.author}`, {
+          signal: controller.signal,
+          limit: 1,
+        });
+        setSuggestion(match ?? null);
+        if (!match) {
+          setLoading(false);
+        }
+      } catch (searchError) {
+        if (isCanceledError(searchError)) {
+          return;
+        }
+        console.error(searchError);
+        setError("Informations OpenLibrary indisponibles.");
+        setLoading(false);
+      }
+    })();
+    return () => controller.abort();
+  }, [book.author, book.name, linkedKey]);
+
+  useEffect(() => {
+    if (!activeKey) {
+      setWork(null);
+      return;
+    }
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+    setExpanded(false);
+    setOffline(false);
+    (async () => {
+      const cached = await getCachedWorkDetails(activeKey);
+      if (controller.signal.aborted) {
+        return;
+      }
+      if (cached) {
+        setWork(cached);
+        setLoading(false);
+      }
+      try {
+        const data = await fetchWorkDetails(activeKey, {
+          signal: controller.signal,
+        });
+        setWork(data);
+      } catch (fetchError) {
+        if (isCanceledError(fetchError)) {
+          return;
+        }
+        console.error(fetchError);
+        if (cached) {
+          setOffline(true);
+          return;
+        }
+        setWork(null);
+        setError("Informations OpenLibrary indisponibles.");
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, [activeKey]);
+
+  const handleLink = useCallback(
+    async (workKey: string | null) => {
+      try {
+        setLinking(true);
+        await onLinkWork(workKey);
+        setPicking(false);
+        setPickerResults([]);
+      } catch (linkError) {
+        console.error(linkError);
+        Alert.alert("Erreur", (linkError as Error).message);
+      } finally {
+        setLinking(false);
+      }
+    },
+    [onLinkWork]
+  );
+
+  const handleSearch = useCallback(async () => {
+    const query = pickerQuery.trim();
+    if (!query) {
+      return;
+    }
+    try {
+      setPickerLoading(true);
+      setPickerResults(await searchBooks(query, { limit: 8 }));
+    } catch (searchError) {
+      console.error(searchError);
+      Alert.alert("Erreur", (searchError as Error).message);
+    } finally {
+      setPickerLoading(false);
+    }
+  }, [pickerQuery]);
+
+  const statusLabel = linkedKey
+    ? "Oeuvre liee a ce livre"
+    : suggestion
+      ? "Correspondance suggeree, a confirmer"
+      : "Aucune oeuvre liee";
+
+  const renderPicker = () => (
+    <View style={styles.picker}>
+      <View style={styles.pickerRow}>
+        <TextInput
+          value={pickerQuery}
+          onChangeText={setPickerQuery}
+          onSubmitEditing={handleSearch}
+          style={styles.input}
+          placeholder="Titre, auteur..."
+          placeholderTextColor="#94a3b8"
+          returnKeyType="search"
+        />
+        <Pressable
+          onPress={handleSearch}
+          style={[styles.smallButton, pickerLoading && styles.buttonDisabled]}
+          disabled={pickerLoading}
+        >
+          <Text style={styles.smallButtonText}>Rechercher</Text>
+        </Pressable>
+      </View>
+      {pickerLoading ? <ActivityIndicator color="#2563eb" /> : null}
+      {pickerResults.map((candidate) => {
+        const current = candidate.key === activeKey;
+        return (
+          <Pressable
+            key={candidate.key}
+            onPress={() => handleLink(candidate.key)}
+            disabled={linking}
+            style={({ pressed }) => [
+              styles.candidate,
+              current && styles.candidateCurrent,
+              pressed ? styles.candidatePressed : null,
+            ]}
+          >
+            <Text style={styles.candidateTitle} numberOfLines={2}>
+              {candidate.title}
+            </Text>
+            <Text style={styles.candidateMeta} numberOfLines={1}>
+              {[
+                candidate.authors.join(", "),
+                candidate.firstPublishYear,
+                candidate.editionCount
+                  ? `${candidate.editionCount} edition(s)`
+                  : null,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </Text>
+          </Pressable>
+        );
+      })}
+      {linkedKey ? (
+        <Pressable onPress={() => handleLink(null)} disabled={linking}>
+          <Text style={styles.unlinkText}>Retirer le lien OpenLibrary</Text>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+
+  const renderWork = (data: OpenLibraryWork) => {
+    const lifespan = formatLifespan(data);
+    return (
+      <View style={styles.details}>
+        <Pressable onPress={() => Linking.openURL(getWorkUrl(data.key))}>
+          <Text style={styles.workTitle}>{data.title}</Text>
+        </Pressable>
+        <Text style={styles.meta}>
+          {[
+            data.firstPublishDate
+              ? `Premiere publication : ${data.firstPublishDate}`
+              : null,
+            `Nombre d'editions referencees : ${data.editionCount}`,
+          ]
+            .filter(Boolean)
+            .join("\n")}
+        </Text>
+        {data.description ? (
+          <Pressable onPress={() => setExpanded((prev) => !prev)}>
+            <Text style={styles.body} numberOfLines={expanded ? undefined : 4}>
+              {data.description}
+            </Text>
+            <Text style={styles.toggleText}>
+              {expanded ? "Voir moins" : "Voir plus"}
+            </Text>
+          </Pressable>
+        ) : null}
+        {data.subjects.length > 0 ? (
+          <View style={styles.subjects}>
+            {data.subjects.slice(0, MAX_SUBJECTS).map((subject) => (
+              <Text key={subject} style={styles.subject}>
+                {subject}
+              </Text>
+            ))}
+          </View>
+        ) : null}
+        {data.author ? (
+          <View style={styles.block}>
+            <Text style={styles.blockTitle}>{data.author.name}</Text>
+            {lifespan ? <Text style={styles.meta}>{lifespan}</Text> : null}
+            {data.author.bio ? (
+              <Text style={styles.body} numberOfLines={6}>
+                {data.author.bio}
+              </Text>
+            ) : null}
+          </View>
+        ) : null}
+        {data.editions.length > 0 ? (
+          <View style={styles.block}>
+            <Text style={styles.blockTitle}>Editions</Text>
+            {data.editions.map((edition) => (
+              <View key={edition.key} style={styles.edition}>
+                <Text style={styles.editionTitle} numberOfLines={1}>
+                  {edition.title}
+                </Text>
+                <Text style={styles.meta} numberOfLines={2}>
+                  {[
+                    edition.publishers.join(", "),
+                    edition.publishDate,
+                    edition.languages.join(", "),
+                    edition.isbn ? `ISBN ${edition.isbn}` : null,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </Text>
+              </View>
+            ))}
+          </View>
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <MaterialIcons name="library-books" size={22} color="#1d4ed8" />
+        <View style={styles.headerTexts}>
+          <Text style={styles.sectionTitle}>OpenLibrary</Text>
+          <Text style={styles.status}>{statusLabel}</Text>
+          {offline ? (
+            <Text style={styles.offlineText}>
+              Hors ligne : dernieres donnees connues.
+            </Text>
+          ) : null}
+        </View>
+      </View>
+      <View style={styles.actions}>
+        {!linkedKey && suggestion ? (
+          <Pressable
+            onPress={() => handleLink(suggestion.key)}
+            style={[styles.smallButton, linking && styles.buttonDisabled]}
+            disabled={linking}
+          >
+            <Text style={styles.smallButtonText}>Confirmer cette oeuvre</Text>
+          </Pressable>
+        ) : null}
+        <Pressable
+          onPress={() => setPicking((prev) => !prev)}
+          style={styles.outlineButton}
+        >
+          <Text style={styles.outlineButtonText}>
+            {picking ? "Fermer la recherche" : "Changer d'oeuvre"}
+          </Text>
+        </Pressable>
+      </View>
+      {picking ? renderPicker() : null}
+      {loading && activeKey ? (
+        <ActivityIndicator color="#2563eb" />
+      ) : error ? (
+        <Text style={styles.errorText}>{error}</Text>
+      ) : work ? (
+        renderWork(work)
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: "#fff",
+    borderRadius: 18,
+    padding: 20,
+    shadowColor: "#0f172a",
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 6 },
+    elevation: 2,
+    gap: 14,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  headerTexts: {
+    flex: 1,
+    gap: 2,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  status: {
+    fontSize: 13,
+    color: "#475569",
+  },
+  offlineText: {
+    fontSize: 12,
+    color: "#b91c1c",
+  },
+  actions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 10,
+  },
+  smallButton: {
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: "#2563eb",
+  },
+  buttonDisabled: {
+    backgroundColor: "#93c5fd",
+  },
+  smallButtonText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  outlineButton: {
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: "#cbd5f5",
+  },
+  outlineButtonText: {
+    color: "#1f2937",
+    fontWeight: "600",
+  },
+  picker: {
+    gap: 8,
+  },
+  pickerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#d4d4d8",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    backgroundColor: "#f8fafc",
+  },
+  candidate: {
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+    borderRadius: 10,
+    padding: 10,
+    gap: 2,
+  },
+  candidateCurrent: {
+    borderColor: "#2563eb",
+    backgroundColor: "#eff6ff",
+  },
+  candidatePressed: {
+    opacity: 0.8,
+  },
+  candidateTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  candidateMeta: {
+    fontSize: 12,
+    color: "#64748b",
+  },
+  unlinkText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#b91c1c",
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#b91c1c",
+  },
+  details: {
+    gap: 12,
+  },
+  workTitle: {
+    fontSize: 17,
+    fontWeight: "700",
+    color: "#1d4ed8",
+  },
+  meta: {
+    fontSize: 13,
+    color: "#475569",
+  },
+  body: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: "#1f2937",
+  },
+  toggleText: {
+    marginTop: 4,
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#2563eb",
+  },
+  subjects: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  subject: {
+    fontSize: 12,
+    color: "#1e3a8a",
+    backgroundColor: "#dbeafe",
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    overflow: "hidden",
+  },
+  block: {
+    gap: 6,
+    borderTopWidth: 1,
+    borderTopColor: "#f1f5f9",
+    paddingTop: 12,
+  },
+  blockTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  edition: {
+    gap: 2,
+  },
+  editionTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+});
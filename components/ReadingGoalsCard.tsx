@@ -0,0 +1,439 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import { useFocusEffect } from "expo-router";
+import { useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { isCanceledError } from "../services/ApiError";
+import {
+  GoalTarget,
+  GoalUnit,
+  GoalsSnapshot,
+  getGoalPace,
+  getGoalValue,
+  getGoals,
+  saveGoals,
+} from "../services/GoalsService";
+import { ProgressRing } from "./ProgressRing";
+
+const UNIT_OPTIONS: { value: GoalUnit; label: string }[] = [
+  { value: "books", label: "Livres" },
+  { value: "pages", label: "Pages" },
+];
+
+function formatAmount(value: number, unit: GoalUnit) {
+  return unit === "pages" ? `${value} page(s)` : `${value} livre(s)`;
+}
+
+function parseTarget(text: string) {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const value = Number(trimmed);
+  return Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+function describePace(
+  goal: GoalTarget,
+  current: number,
+  scope: "yearly" | "monthly"
+) {
+  if (current >= goal.target) {
+    return "Objectif atteint, bravo !";
+  }
+  const pace = getGoalPace(goal, current, scope);
+  const period = scope === "yearly" ? "l'annee" : "le mois";
+  const projection = `Projection : ${formatAmount(
+    pace.projected,
+    goal.unit
+  )} d'ici la fin de ${period}.`;
+  if (pace.delta > 0) {
+    return `En avance de ${formatAmount(pace.delta, goal.unit)}. ${projection}`;
+  }
+  if (pace.delta === 0) {
+    return `Dans les temps. ${projection}`;
+  }
+  return `En retard de ${formatAmount(-pace.delta, goal.unit)}. ${projection}`;
+}
+
+type GoalRowProps = {
+  title: string;
+  goal: GoalTarget;
+  current: number;
+  scope: "yearly" | "monthly";
+};
+
+function GoalRow({ title, goal, current, scope }: GoalRowProps) {
+  const ratio = current / goal.target;
+  const behind = getGoalPace(goal, current, scope).delta < 0 && ratio < 1;
+  return (
+    <View style={styles.goalRow}>
+      <ProgressRing progress={ratio} color={behind ? "#f59e0b" : "#2563eb"}>
+        <Text style={styles.ringValue}>{Math.round(ratio * 100)}%</Text>
+      </ProgressRing>
+      <View style={styles.goalTexts}>
+        <Text style={styles.goalTitle}>{title}</Text>
+        <Text style={styles.goalCount}>
+          {current} / {formatAmount(goal.target, goal.unit)}
+        </Text>
+        <Text style={[styles.goalPace, behind ? styles.goalPaceBehind : null]}>
+          {describePace(goal, current, scope)}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+export function ReadingGoalsCard() {
+  const year = new Date().getFullYear();
+  const [snapshot, setSnapshot] = useState<GoalsSnapshot | null>(null);
+  const [offline, setOffline] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [unit, setUnit] = useState<GoalUnit>("books");
+  const [yearlyText, setYearlyText] = useState("");
+  const [monthlyText, setMonthlyText] = useState("");
+
+  useFocusEffect(
+    useCallback(() => {
+      const controller = new AbortController();
+      (async () => {
+        try {
+          setLoading(true);
+          const data = await getGoals(year, { signal: controller.signal });
+          setSnapshot(data);
+          setOffline(data.offline);
+        } catch (error) {
+          if (isCanceledError(error)) {
+            return;
+          }
+          console.error(error);
+        } finally {
+          setLoading(false);
+        }
+      })();
+      return () => controller.abort();
+    }, [year])
+  );
+
+  const handleEdit = () => {
+    const goals = snapshot?.goals;
+    setUnit(goals?.yearly?.unit ?? goals?.monthly?.unit ?? "books");
+    setYearlyText(goals?.yearly ? String(goals.yearly.target) : "");
+    setMonthlyText(goals?.monthly ? String(goals.monthly.target) : "");
+    setEditing(true);
+  };
+
+  const handleSave = useCallback(async () => {
+    const yearly = parseTarget(yearlyText);
+    const monthly = parseTarget(monthlyText);
+    if (yearly === undefined || monthly === undefined) {
+      Alert.alert(
+        "Objectif invalide",
+        "Les objectifs doivent etre des nombres entiers positifs."
+      );
+      return;
+    }
+    try {
+      setSaving(true);
+      const saved = await saveGoals({
+        year,
+        yearly: yearly ? { unit, target: yearly } : null,
+        monthly: monthly ? { unit, target: monthly } : null,
+      });
+      setSnapshot(saved);
+      setEditing(false);
+    } catch (error) {
+      console.error(error);
+      Alert.alert("Erreur", (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  }, [monthlyText, unit, year, yearlyText]);
+
+  const goals = snapshot?.goals;
+  const progress = snapshot?.progress ?? null;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.cardTitle}>Objectifs {year}</Text>
+        {!editing ? (
+          <Pressable
+            onPress={handleEdit}
+            style={styles.editButton}
+            disabled={loading}
+          >
+            <MaterialIcons name="flag" size={16} color="#2563eb" />
+            <Text style={styles.editText}>
+              {goals?.yearly || goals?.monthly ? "Modifier" : "Definir"}
+            </Text>
+          </Pressable>
+        ) : null}
+      </View>
+
+      {offline || snapshot?.pending ? (
+        <Text style={styles.hint}>
+          {snapshot?.pending
+            ? "Objectifs enregistres sur l'appareil, en attente de synchro."
+            : "Hors ligne : derniers objectifs connus."}
+        </Text>
+      ) : null}
+
+      {loading && !snapshot ? (
+        <ActivityIndicator size="small" color="#2563eb" />
+      ) : editing ? (
+        <View style={styles.form}>
+          <View style={styles.unitRow}>
+            {UNIT_OPTIONS.map((option) => (
+              <Pressable
+                key={option.value}
+                onPress={() => setUnit(option.value)}
+                style={[
+                  styles.unitChip,
+                  unit === option.value ? styles.unitChipActive : null,
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.unitChipText,
+                    unit === option.value ? styles.unitChipTextActive : null,
+                  ]}
+                >
+                  {option.label}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <View style={styles.formRow}>
+            <View style={styles.formField}>
+              <Text style={styles.label}>Objectif annuel</Text>
+              <TextInput
+                value={yearlyText}
+                onChangeText={setYearlyText}
+                style={styles.input}
+                placeholder={unit === "pages" ? "6000" : "24"}
+                placeholderTextColor="#94a3b8"
+                keyboardType="numeric"
+                editable={!saving}
+              />
+            </View>
+            <View style={styles.formField}>
+              <Text style={styles.label}>Objectif mensuel</Text>
+              <TextInput
+                value={monthlyText}
+                onChangeText={setMonthlyText}
+                style={styles.input}
+                placeholder="Optionnel"
+                placeholderTextColor="#94a3b8"
+                keyboardType="numeric"
+                editable={!saving}
+              />
+            </View>
+          </View>
+          <View style={styles.formActions}>
+            <Pressable
+              onPress={() => setEditing(false)}
+              style={styles.cancelButton}
+              disabled={saving}
+            >
+              <Text style={styles.cancelText}>Annuler</Text>
+            </Pressable>
+            <Pressable
+              onPress={handleSave}
+              style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.saveText}>Enregistrer</Text>
+              )}
+            </Pressable>
+          </View>
+        </View>
+      ) : goals?.yearly || goals?.monthly ? (
+        <View style={styles.goals}>
+          {goals.yearly ? (
+            <GoalRow
+              title="Cette annee"
+              goal={goals.yearly}
+              current={getGoalValue(progress, goals.yearly, "yearly")}
+              scope="yearly"
+            />
+          ) : null}
+          {goals.monthly ? (
+            <GoalRow
+              title="Ce mois-ci"
+              goal={goals.monthly}
+              current={getGoalValue(progress, goals.monthly, "monthly")}
+              scope="monthly"
+            />
+          ) : null}
+        </View>
+      ) : (
+        <Text style={styles.hint}>
+          Fixez un nombre de livres ou de pages a lire cette annee pour suivre
+          votre rythme.
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: "#ffffff",
+    borderRadius: 18,
+    padding: 20,
+    shadowColor: "#0f172a",
+    shadowOpacity: 0.05,
+    shadowRadius: 10,
+    shadowOffset: { width: 0, height: 6 },
+    elevation: 2,
+    gap: 16,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  cardTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  editButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  editText: {
+    color: "#2563eb",
+    fontWeight: "600",
+    fontSize: 13,
+  },
+  hint: {
+    fontSize: 13,
+    color: "#64748b",
+  },
+  goals: {
+    gap: 16,
+  },
+  goalRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 16,
+  },
+  ringValue: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  goalTexts: {
+    flex: 1,
+    gap: 4,
+  },
+  goalTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#475569",
+  },
+  goalCount: {
+    fontSize: 17,
+    fontWeight: "700",
+    color: "#1d4ed8",
+  },
+  goalPace: {
+    fontSize: 13,
+    color: "#047857",
+  },
+  goalPaceBehind: {
+    color: "#b45309",
+  },
+  form: {
+    gap: 12,
+  },
+  unitRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  unitChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    backgroundColor: "#fff",
+  },
+  unitChipActive: {
+    borderColor: "#2563eb",
+    backgroundColor: "#dbeafe",
+  },
+  unitChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#475569",
+  },
+  unitChipTextActive: {
+    color: "#1d4ed8",
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  formField: {
+    flex: 1,
+    gap: 4,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#d4d4d8",
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 15,
+    backgroundColor: "#f8fafc",
+  },
+  formActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 10,
+  },
+  cancelButton: {
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  cancelText: {
+    color: "#475569",
+    fontWeight: "600",
+  },
+  saveButton: {
+    borderRadius: 10,
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+    backgroundColor: "#2563eb",
+  },
+  saveButtonDisabled: {
+    backgroundColor: "#93c5fd",
+  },
+  saveText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+});
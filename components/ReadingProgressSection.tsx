@@ -0,0 +1,421 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { isCanceledError, isNetworkError } from "../services/ApiError";
+import {
+  Book,
+  BookPayload,
+  ReadingSession,
+  ReadingSessionInput,
+  addReadingSession,
+  getReadingSessions,
+  getReadingStatus,
+} from "../services/BooksService";
+import { isLocalBookId, queueReadingSession } from "../services/MutationQueue";
+import {
+  formatDuration,
+  getReadingProgress,
+  getSessionChanges,
+} from "../services/ReadingProgress";
+
+type ReadingProgressSectionProps = {
+  book: Book;
+  onUpdate: (changes: Partial<BookPayload>) => Promise<boolean>;
+  onStatus: (message: string) => void;
+};
+
+function todayText() {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+function formatSessionDate(value: string) {
+  return new Date(value).toLocaleDateString("fr-FR", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+function validateSession(
+  pagesText: string,
+  durationText: string,
+  dateText: string
+): ReadingSessionInput | string {
+  const pagesRead = Number(pagesText.trim());
+  if (!Number.isInteger(pagesRead) || pagesRead <= 0) {
+    return "Indiquez un nombre de pages lues superieur a zero.";
+  }
+  let durationMinutes: number | null = null;
+  if (durationText.trim()) {
+    durationMinutes = Number(durationText.trim());
+    if (!Number.isInteger(durationMinutes) || durationMinutes < 0) {
+      return "La duree doit etre un nombre de minutes.";
+    }
+  }
+  const date = new Date(`${dateText.trim()}T12:00:00`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateText.trim()) || Number.isNaN(+date)) {
+    return "La date doit etre au format AAAA-MM-JJ.";
+  }
+  if (date.getTime() > Date.now() + 24 * 60 * 60 * 1000) {
+    return "La date ne peut pas etre dans le futur.";
+  }
+  return { pagesRead, durationMinutes, dateISO: date.toISOString() };
+}
+
+export function ReadingProgressSection({
+  book,
+  onUpdate,
+  onStatus,
+}: ReadingProgressSectionProps) {
+  const [sessions, setSessions] = useState<ReadingSession[]>([]);
+  const [formOpen, setFormOpen] = useState(false);
+  const [pagesText, setPagesText] = useState("");
+  const [durationText, setDurationText] = useState("");
+  const [dateText, setDateText] = useState(todayText);
+  const [submitting, setSubmitting] = useState(false);
+
+  const progress = getReadingProgress(book);
+
+  useEffect(() => {
+    if (isLocalBookId(book.id)) {
+      return;
+    }
+    const controller = new AbortController();
+    (async () => {
+      try {
+        const data = await getReadingSessions(book.id, {
+          signal: controller.signal,
+        });
+        setSessions(data);
+      } catch (error) {
+        if (isCanceledError(error) || isNetworkError(error)) {
+          return;
+        }
+        console.error("Erreur de chargement des sessions", error);
+      }
+    })();
+    return () => controller.abort();
+  }, [book.id]);
+
+  const sortedSessions = useMemo(
+    () => [...sessions].sort((a, b) => b.dateISO.localeCompare(a.dateISO)),
+    [sessions]
+  );
+
+  const totals = useMemo(
+    () =>
+      sessions.reduce(
+        (sum, session) => ({
+          pages: sum.pages + session.pagesRead,
+          minutes: sum.minutes + (session.durationMinutes ?? 0),
+        }),
+        { pages: 0, minutes: 0 }
+      ),
+    [sessions]
+  );
+
+  const resetForm = () => {
+    setPagesText("");
+    setDurationText("");
+    setDateText(todayText());
+    setFormOpen(false);
+  };
+
+  const handleSubmit = useCallback(async () => {
+    const input = validateSession(pagesText, durationText, dateText);
+    if (typeof input === "string") {
+      onStatus(input);
+      return;
+    }
+    try {
+      setSubmitting(true);
+      let session: ReadingSession | null = null;
+      if (!isLocalBookId(book.id)) {
+        try {
+          session = await addReadingSession(book.id, input);
+        } catch (error) {
+          if (!isNetworkError(error)) {
+            throw error;
+          }
+        }
+      }
+      const sessionQueued = !session;
+      if (!session) {
+        const pending = await queueReadingSession(book.id, input);
+        session = { ...input, id: pending.id, bookId: book.id };
+      }
+      const created = session;
+      setSessions((prev) => [created, ...prev]);
+
+      const changes = getSessionChanges(book, input);
+      const queued = (await onUpdate(changes)) || sessionQueued;
+      const message =
+        changes.read && getReadingStatus(book) !== "read"
+          ? "Derniere page atteinte : livre marque comme lu."
+          : `Session enregistree : ${input.pagesRead} page(s).`;
+      onStatus(queued ? `${message} (en attente de synchro)` : message);
+      resetForm();
+    } catch (error) {
+      console.error(error);
+      Alert.alert("Erreur", (error as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  }, [book, dateText, durationText, onStatus, onUpdate, pagesText]);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.sectionTitle}>Progression</Text>
+        <Pressable
+          onPress={() => setFormOpen((prev) => !prev)}
+          style={styles.headerButton}
+          disabled={submitting}
+        >
+          <MaterialIcons
+            name={formOpen ? "close" : "add"}
+            size={18}
+            color="#1d4ed8"
+          />
+          <Text style={styles.headerButtonText}>
+            {formOpen ? "Annuler" : "Session de lecture"}
+          </Text>
+        </Pressable>
+      </View>
+
+      {progress ? (
+        <View style={styles.progressBlock}>
+          <View style={styles.progressTrack}>
+            <View
+              style={[
+                styles.progressFill,
+                getReadingStatus(book) === "read"
+                  ? styles.progressFillDone
+                  : null,
+                { width: `${Math.round(progress.ratio * 100)}%` },
+              ]}
+            />
+          </View>
+          <Text style={styles.progressText}>
+            Page {progress.currentPage} / {progress.totalPages} ·{" "}
+            {Math.round(progress.ratio * 100)}%
+          </Text>
+        </View>
+      ) : (
+        <Text style={styles.emptyText}>
+          Renseignez le nombre de pages du livre pour suivre la progression.
+        </Text>
+      )}
+
+      {formOpen ? (
+        <View style={styles.form}>
+          <View style={styles.formRow}>
+            <View style={styles.formField}>
+              <Text style={styles.label}>Pages lues</Text>
+              <TextInput
+                value={pagesText}
+                onChangeText={setPagesText}
+                style={styles.input}
+                placeholder="25"
+                placeholderTextColor="#94a3b8"
+                keyboardType="numeric"
+                editable={!submitting}
+              />
+            </View>
+            <View style={styles.formField}>
+              <Text style={styles.label}>Duree (min)</Text>
+              <TextInput
+                value={durationText}
+                onChangeText={setDurationText}
+                style={styles.input}
+                placeholder="30"
+                placeholderTextColor="#94a3b8"
+                keyboardType="numeric"
+                editable={!submitting}
+              />
+            </View>
+            <View style={styles.formField}>
+              <Text style={styles.label}>Date</Text>
+              <TextInput
+                value={dateText}
+                onChangeText={setDateText}
+                style={styles.input}
+                placeholder="AAAA-MM-JJ"
+                placeholderTextColor="#94a3b8"
+                autoCorrect={false}
+                editable={!submitting}
+              />
+            </View>
+          </View>
+          <Pressable
+            onPress={handleSubmit}
+            style={[styles.submitButton, submitting && styles.buttonDisabled]}
+            disabled={submitting}
+          >
+            {submitting ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.submitText}>Enregistrer la session</Text>
+            )}
+          </Pressable>
+        </View>
+      ) : null}
+
+      {sortedSessions.length > 0 ? (
+        <View style={styles.sessions}>
+          <Text style={styles.totals}>
+            {sessions.length} session(s) · {totals.pages} page(s)
+            {totals.minutes ? ` · ${formatDuration(totals.minutes)}` : ""}
+          </Text>
+          {sortedSessions.slice(0, 5).map((session) => (
+            <View key={session.id} style={styles.sessionRow}>
+              <Text style={styles.sessionDate}>
+                {formatSessionDate(session.dateISO)}
+              </Text>
+              <Text style={styles.sessionText}>
+                {[
+                  `${session.pagesRead} page(s)`,
+                  formatDuration(session.durationMinutes),
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </Text>
+            </View>
+          ))}
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: "#fff",
+    borderRadius: 18,
+    padding: 20,
+    shadowColor: "#0f172a",
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 6 },
+    elevation: 2,
+    gap: 14,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  headerButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  headerButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1d4ed8",
+  },
+  progressBlock: {
+    gap: 6,
+  },
+  progressTrack: {
+    height: 10,
+    borderRadius: 999,
+    backgroundColor: "#e2e8f0",
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    backgroundColor: "#2563eb",
+  },
+  progressFillDone: {
+    backgroundColor: "#047857",
+  },
+  progressText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#334155",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#6b7280",
+  },
+  form: {
+    gap: 12,
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  formField: {
+    flex: 1,
+    gap: 4,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#d4d4d8",
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 15,
+    backgroundColor: "#f8fafc",
+  },
+  submitButton: {
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: "center",
+    backgroundColor: "#2563eb",
+  },
+  buttonDisabled: {
+    backgroundColor: "#93c5fd",
+  },
+  submitText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  sessions: {
+    gap: 8,
+  },
+  totals: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#475569",
+  },
+  sessionRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    borderTopWidth: 1,
+    borderTopColor: "#f1f5f9",
+    paddingTop: 8,
+  },
+  sessionDate: {
+    fontSize: 14,
+    color: "#1f2937",
+  },
+  sessionText: {
+    fontSize: 14,
+    color: "#475569",
+  },
+});
@@ -0,0 +1,398 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import { useFocusEffect } from "expo-router";
+import { ReactNode, useCallback, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Dimensions,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { BarChart, LineChart } from "react-native-chart-kit";
+
+import { isCanceledError, isNetworkError } from "../services/ApiError";
+import { computeStatsTimeline, loadLocalBooks } from "../services/LocalStats";
+import {
+  RankedEntry,
+  STATS_PERIODS,
+  StatsBucket,
+  StatsPeriod,
+  StatsTimeline,
+  formatBucketLabel,
+  getStatsTimeline,
+  hasBucketValues,
+} from "../services/StatsService";
+
+const MAX_VISIBLE_LABELS = 6;
+const LOCAL_TIMELINE_HINT =
+  "Hors ligne : calcule depuis les livres de l'appareil. Les pages sont celles des livres termines.";
+
+// Keeps roughly MAX_VISIBLE_LABELS labels so long series stay readable.
+function toChartData(buckets: StatsBucket[]) {
+  const step = Math.max(Math.ceil(buckets.length / MAX_VISIBLE_LABELS), 1);
+  return {
+    labels: buckets.map((bucket, index) =>
+      index % step === 0 ? formatBucketLabel(bucket.key) : ""
+    ),
+    datasets: [{ data: buckets.map((bucket) => bucket.value) }],
+  };
+}
+
+function ChartBlock({
+  title,
+  empty,
+  children,
+}: {
+  title: string;
+  empty: boolean;
+  children: ReactNode;
+}) {
+  return (
+    <View style={styles.block}>
+      <Text style={styles.blockTitle}>{title}</Text>
+      {empty ? (
+        <Text style={styles.emptyText}>Pas encore de donnees.</Text>
+      ) : (
+        children
+      )}
+    </View>
+  );
+}
+
+function RankingList({
+  title,
+  entries,
+}: {
+  title: string;
+  entries: RankedEntry[];
+}) {
+  const max = entries[0]?.count ?? 0;
+  return (
+    <View style={styles.block}>
+      <Text style={styles.blockTitle}>{title}</Text>
+      {entries.length === 0 ? (
+        <Text style={styles.emptyText}>Pas encore de donnees.</Text>
+      ) : (
+        entries.slice(0, 5).map((entry, index) => (
+          <View key={entry.name} style={styles.rankRow}>
+            <Text style={styles.rankIndex}>{index + 1}</Text>
+            <View style={styles.rankBody}>
+              <View style={styles.rankHeader}>
+                <Text style={styles.rankName} numberOfLines={1}>
+                  {entry.name}
+                </Text>
+                <Text style={styles.rankCount}>{entry.count}</Text>
+              </View>
+              <View style={styles.rankTrack}>
+                <View
+                  style={[
+                    styles.rankFill,
+                    { width: `${max ? (entry.count / max) * 100 : 0}%` },
+                  ]}
+                />
+              </View>
+            </View>
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+export function StatsTimelineSection() {
+  const [period, setPeriod] = useState<StatsPeriod>("year");
+  const [timeline, setTimeline] = useState<StatsTimeline | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [computedLocally, setComputedLocally] = useState(false);
+
+  const chartWidth = useMemo(
+    () => Math.max(Dimensions.get("window").width - 80, 280),
+    []
+  );
+
+  useFocusEffect(
+    useCallback(() => {
+      const controller = new AbortController();
+      (async () => {
+        try {
+          setLoading(true);
+          setError(null);
+          const data = await getStatsTimeline(period, {
+            signal: controller.signal,
+          });
+          setTimeline(data);
+          setComputedLocally(false);
+        } catch (fetchError) {
+          if (isCanceledError(fetchError)) {
+            return;
+          }
+          if (isNetworkError(fetchError)) {
+            const local = await loadLocalBooks();
+            if (local) {
+              setTimeline(computeStatsTimeline(local.books, period));
+              setComputedLocally(true);
+              return;
+            }
+          }
+          console.error(fetchError);
+          setError((fetchError as Error).message);
+        } finally {
+          setLoading(false);
+        }
+      })();
+      return () => controller.abort();
+    }, [period])
+  );
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Evolution</Text>
+      <View style={styles.periodRow}>
+        {STATS_PERIODS.map((option) => (
+          <Pressable
+            key={option.value}
+            onPress={() => setPeriod(option.value)}
+            style={[
+              styles.periodChip,
+              period === option.value ? styles.periodChipActive : null,
+            ]}
+            accessibilityRole="button"
+          >
+            <Text
+              style={[
+                styles.periodChipText,
+                period === option.value ? styles.periodChipTextActive : null,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {loading && !timeline ? (
+        <ActivityIndicator size="small" color="#2563eb" />
+      ) : error && !timeline ? (
+        <View style={styles.errorBox}>
+          <MaterialIcons name="cloud-off" size={18} color="#b91c1c" />
+          <Text style={styles.errorText}>
+            Impossible de charger les tendances : {error}
+          </Text>
+        </View>
+      ) : timeline ? (
+        <View style={[styles.body, loading ? styles.bodyLoading : null]}>
+          {computedLocally ? (
+            <Text style={styles.emptyText}>{LOCAL_TIMELINE_HINT}</Text>
+          ) : null}
+          <ChartBlock
+            title="Livres termines"
+            empty={!hasBucketValues(timeline.booksFinished)}
+          >
+            <LineChart
+              data={toChartData(timeline.booksFinished)}
+              width={chartWidth}
+              height={200}
+              chartConfig={chartConfig}
+              fromZero
+              bezier
+              style={styles.chart}
+            />
+          </ChartBlock>
+          <ChartBlock
+            title="Pages lues par semaine"
+            empty={!hasBucketValues(timeline.pagesRead)}
+          >
+            <BarChart
+              data={toChartData(timeline.pagesRead)}
+              width={chartWidth}
+              height={200}
+              chartConfig={chartConfig}
+              yAxisLabel=""
+              yAxisSuffix=""
+              fromZero
+              style={styles.chart}
+            />
+          </ChartBlock>
+          <ChartBlock
+            title="Repartition des notes"
+            empty={!hasBucketValues(timeline.ratings)}
+          >
+            <BarChart
+              data={{
+                labels: timeline.ratings.map((bucket) => `${bucket.key} *`),
+                datasets: [
+                  { data: timeline.ratings.map((bucket) => bucket.value) },
+                ],
+              }}
+              width={chartWidth}
+              height={180}
+              chartConfig={ratingChartConfig}
+              yAxisLabel=""
+              yAxisSuffix=""
+              fromZero
+              showValuesOnTopOfBars
+              style={styles.chart}
+            />
+          </ChartBlock>
+          <ChartBlock
+            title="Annees de publication"
+            empty={!hasBucketValues(timeline.publicationYears)}
+          >
+            <BarChart
+              data={toChartData(timeline.publicationYears)}
+              width={chartWidth}
+              height={180}
+              chartConfig={chartConfig}
+              yAxisLabel=""
+              yAxisSuffix=""
+              fromZero
+              style={styles.chart}
+            />
+          </ChartBlock>
+          <RankingList
+            title="Auteurs les plus lus"
+            entries={timeline.topAuthors}
+          />
+          <RankingList title="Themes favoris" entries={timeline.topThemes} />
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const chartConfig = {
+  backgroundGradientFrom: "#ffffff",
+  backgroundGradientTo: "#ffffff",
+  decimalPlaces: 0,
+  color: (opacity = 1) => `rgba(37,99,235,${opacity})`,
+  labelColor: (opacity = 1) => `rgba(71,85,105,${opacity})`,
+  propsForDots: { r: "3" },
+};
+
+const ratingChartConfig = {
+  ...chartConfig,
+  color: (opacity = 1) => `rgba(245,158,11,${opacity})`,
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: "#ffffff",
+    borderRadius: 18,
+    padding: 20,
+    shadowColor: "#0f172a",
+    shadowOpacity: 0.05,
+    shadowRadius: 10,
+    shadowOffset: { width: 0, height: 6 },
+    elevation: 2,
+    gap: 16,
+  },
+  cardTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  periodRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  periodChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    backgroundColor: "#fff",
+  },
+  periodChipActive: {
+    borderColor: "#2563eb",
+    backgroundColor: "#dbeafe",
+  },
+  periodChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#475569",
+  },
+  periodChipTextActive: {
+    color: "#1d4ed8",
+  },
+  body: {
+    gap: 20,
+  },
+  bodyLoading: {
+    opacity: 0.6,
+  },
+  block: {
+    gap: 8,
+  },
+  blockTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  chart: {
+    borderRadius: 12,
+    marginLeft: -8,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: "#64748b",
+  },
+  rankRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  rankIndex: {
+    width: 18,
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#94a3b8",
+  },
+  rankBody: {
+    flex: 1,
+    gap: 4,
+  },
+  rankHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 8,
+  },
+  rankName: {
+    flex: 1,
+    fontSize: 14,
+    color: "#1f2937",
+  },
+  rankCount: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1d4ed8",
+  },
+  rankTrack: {
+    height: 6,
+    borderRadius: 999,
+    backgroundColor: "#e2e8f0",
+    overflow: "hidden",
+  },
+  rankFill: {
+    height: "100%",
+    backgroundColor: "#2563eb",
+  },
+  errorBox: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#fecaca",
+    backgroundColor: "#fee2e2",
+    padding: 12,
+  },
+  errorText: {
+    flex: 1,
+    color: "#b91c1c",
+    fontSize: 13,
+  },
+});
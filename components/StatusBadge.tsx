@@ -0,0 +1,114 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import { ComponentProps } from "react";
+import { GestureResponderEvent, Pressable, StyleSheet, Text } from "react-native";
+
+import { ReadingStatus } from "../services/BooksService";
+import { getStatusLabel } from "../services/ReadingStatus";
+
+const STATUS_STYLES: Record<
+  ReadingStatus,
+  {
+    icon: ComponentProps<typeof MaterialIcons>["name"];
+    color: string;
+    background: string;
+  }
+> = {
+  "want-to-read": {
+    icon: "bookmark-border",
+    color: "#4b5563",
+    background: "#e5e7eb",
+  },
+  reading: { icon: "auto-stories", color: "#1d4ed8", background: "#dbeafe" },
+  read: { icon: "check-circle", color: "#047857", background: "#dcfce7" },
+  abandoned: {
+    icon: "do-not-disturb-on",
+    color: "#b45309",
+    background: "#fef3c7",
+  },
+};
+
+type StatusBadgeProps = {
+  status: ReadingStatus;
+  onPress?: (event: GestureResponderEvent) => void;
+  large?: boolean;
+  selected?: boolean;
+  disabled?: boolean;
+  accessibilityLabel?: string;
+};
+
+export function StatusBadge({
+  status,
+  onPress,
+  large = false,
+  selected = true,
+  disabled = false,
+  accessibilityLabel,
+}: StatusBadgeProps) {
+  const { icon, color, background } = STATUS_STYLES[status];
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled || !onPress}
+      style={({ pressed }) => [
+        styles.badge,
+        large ? styles.badgeLarge : null,
+        selected
+          ? { backgroundColor: background }
+          : { borderColor: background, ...styles.badgeUnselected },
+        pressed ? styles.badgePressed : null,
+      ]}
+      hitSlop={8}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+      accessibilityLabel={accessibilityLabel}
+    >
+      <MaterialIcons
+        name={icon}
+        size={large ? 18 : 16}
+        color={selected ? color : "#94a3b8"}
+      />
+      <Text
+        style={[
+          styles.text,
+          large ? styles.textLarge : null,
+          selected ? null : styles.textUnselected,
+        ]}
+      >
+        {getStatusLabel(status)}
+      </Text>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+  },
+  badgeLarge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  badgeUnselected: {
+    borderWidth: 1,
+    backgroundColor: "#fff",
+  },
+  badgePressed: {
+    opacity: 0.85,
+  },
+  text: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  textLarge: {
+    fontSize: 13,
+  },
+  textUnselected: {
+    color: "#64748b",
+  },
+});
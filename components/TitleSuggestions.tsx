@@ -0,0 +1,212 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Image,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import { isCanceledError } from "../services/ApiError";
+import {
+  OpenLibraryCandidate,
+  getCoverUrl,
+  searchBooks,
+} from "../services/OpenLibraryService";
+
+const SEARCH_DELAY_MS = 400;
+const MIN_QUERY_LENGTH = 3;
+
+type TitleSuggestionsProps = {
+  query: string;
+  onSelect: (candidate: OpenLibraryCandidate) => void;
+  onDismiss: () => void;
+};
+
+export function TitleSuggestions({
+  query,
+  onSelect,
+  onDismiss,
+}: TitleSuggestionsProps) {
+  const [candidates, setCandidates] = useState<OpenLibraryCandidate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    setCandidates([]);
+    setError(null);
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const data = await searchBooks(trimmed, {
+          signal: controller.signal,
+          limit: 6,
+        });
+        setCandidates(data);
+      } catch (searchError) {
+        if (isCanceledError(searchError)) {
+          return;
+        }
+        console.error(searchError);
+        setError("Suggestions OpenLibrary indisponibles.");
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  if (query.trim().length < MIN_QUERY_LENGTH) {
+    return null;
+  }
+
+  if (loading) {
+    return (
+      <View style={[styles.dropdown, styles.statusRow]}>
+        <ActivityIndicator size="small" color="#2563eb" />
+        <Text style={styles.statusText}>Recherche sur OpenLibrary...</Text>
+      </View>
+    );
+  }
+
+  if (error || candidates.length === 0) {
+    return (
+      <View style={[styles.dropdown, styles.statusRow]}>
+        <Text style={styles.statusText}>
+          {error ?? "Aucune suggestion OpenLibrary."}
+        </Text>
+        <Pressable
+          onPress={onDismiss}
+          hitSlop={8}
+          accessibilityLabel="Fermer les suggestions"
+        >
+          <MaterialIcons name="close" size={18} color="#64748b" />
+        </Pressable>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.dropdown}>
+      {candidates.map((candidate) => (
+        <Pressable
+          key={candidate.key}
+          onPress={() => onSelect(candidate)}
+          style={({ pressed }) => [
+            styles.candidate,
+            pressed ? styles.candidatePressed : null,
+          ]}
+        >
+          {candidate.coverId ? (
+            <Image
+              source={{ uri: getCoverUrl(candidate.coverId, "S") }}
+              style={styles.thumbnail}
+            />
+          ) : (
+            <View style={[styles.thumbnail, styles.thumbnailEmpty]}>
+              <MaterialIcons name="menu-book" size={16} color="#94a3b8" />
+            </View>
+          )}
+          <View style={styles.candidateTexts}>
+            <Text style={styles.candidateTitle} numberOfLines={2}>
+              {candidate.title}
+            </Text>
+            <Text style={styles.candidateMeta} numberOfLines={1}>
+              {[
+                candidate.authors.join(", "),
+                candidate.firstPublishYear,
+                candidate.publishers[0],
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </Text>
+          </View>
+        </Pressable>
+      ))}
+      <Pressable onPress={onDismiss} style={styles.dismiss}>
+        <Text style={styles.dismissText}>Ignorer les suggestions</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  dropdown: {
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+    borderRadius: 12,
+    backgroundColor: "#fff",
+    overflow: "hidden",
+  },
+  statusRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#64748b",
+  },
+  candidate: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f1f5f9",
+  },
+  candidatePressed: {
+    backgroundColor: "#eff6ff",
+  },
+  thumbnail: {
+    width: 32,
+    height: 46,
+    borderRadius: 4,
+    backgroundColor: "#f1f5f9",
+  },
+  thumbnailEmpty: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  candidateTexts: {
+    flex: 1,
+    gap: 2,
+  },
+  candidateTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  candidateMeta: {
+    fontSize: 12,
+    color: "#64748b",
+  },
+  dismiss: {
+    paddingVertical: 8,
+    alignItems: "center",
+  },
+  dismissText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#2563eb",
+  },
+});
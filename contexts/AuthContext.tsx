@@ -0,0 +1,94 @@
+import {
+  ReactNode,
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+
+import {
+  AuthUser,
+  RegisterInput,
+  installAuthentication,
+  login,
+  logout,
+  register,
+  restoreSession,
+  subscribeToSession,
+} from "../services/AuthService";
+
+type AuthStatus = "loading" | "signedIn" | "signedOut";
+
+type AuthContextValue = {
+  status: AuthStatus;
+  user: AuthUser | null;
+  signIn: (email: string, password: string) => Promise<void>;
+  signUp: (input: RegisterInput) => Promise<void>;
+  signOut: () => Promise<void>;
+};
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [status, setStatus] = useState<AuthStatus>("loading");
+  const [user, setUser] = useState<AuthUser | null>(null);
+
+  useEffect(() => {
+    const uninstall = installAuthentication();
+    const unsubscribe = subscribeToSession((session) => {
+      setUser(session?.user ?? null);
+      setStatus(session ? "signedIn" : "signedOut");
+    });
+
+    let canceled = false;
+    (async () => {
+      try {
+        const session = await restoreSession();
+        if (!canceled) {
+          setUser(session?.user ?? null);
+          setStatus(session ? "signedIn" : "signedOut");
+        }
+      } catch (error) {
+        console.error("Erreur de restauration de la session", error);
+        if (!canceled) {
+          setStatus("signedOut");
+        }
+      }
+    })();
+
+    return () => {
+      canceled = true;
+      unsubscribe();
+      uninstall();
+    };
+  }, []);
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    await login(email, password);
+  }, []);
+
+  const signUp = useCallback(async (input: RegisterInput) => {
+    await register(input);
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await logout();
+  }, []);
+
+  const value = useMemo(
+    () => ({ status, user, signIn, signUp, signOut }),
+    [signIn, signOut, signUp, status, user]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth doit etre utilise dans un AuthProvider.");
+  }
+  return context;
+}
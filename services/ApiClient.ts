@@ -0,0 +1,316 @@
+import Constants from "expo-constants";
+
+import {
+  ApiError,
+  CanceledError,
+  NetworkError,
+  TimeoutError,
+  UnauthorizedError,
+  isRetryableError,
+  parseApiError,
+} from "./ApiError";
+
+const DEFAULT_API_URL = "https://api-books-kycs.onrender.com";
+const UPLOAD_TIMEOUT_MS = 60000;
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+export type HeaderProvider = () =>
+  | Record<string, string>
+  | Promise<Record<string, string>>;
+
+export type ApiClientConfig = {
+  baseUrl: string;
+  timeoutMs?: number;
+  retries?: number;
+  retryDelayMs?: number;
+  headerProviders?: HeaderProvider[];
+};
+
+export type RequestOptions = Omit<RequestInit, "headers" | "signal"> & {
+  headers?: Record<string, string>;
+  signal?: AbortSignal | null;
+  timeoutMs?: number;
+  retries?: number;
+  expectsBody?: boolean;
+};
+
+export type UploadOptions = {
+  headers?: Record<string, string>;
+  signal?: AbortSignal | null;
+  timeoutMs?: number;
+  onProgress?: (progress: number) => void;
+};
+
+export type UnauthorizedHandler = () => Promise<boolean>;
+
+export type ApiClient = {
+  baseUrl: string;
+  request: <T>(path: string, options?: RequestOptions) => Promise<T>;
+  upload: <T>(
+    path: string,
+    body: FormData,
+    options?: UploadOptions
+  ) => Promise<T>;
+  addHeaderProvider: (provider: HeaderProvider) => () => void;
+  setUnauthorizedHandler: (handler: UnauthorizedHandler | null) => void;
+};
+
+async function readJson<T>(response: Response) {
+  try {
+    return (await response.json()) as T;
+  } catch (error) {
+    console.error("Reponse JSON invalide", error);
+    throw new ApiError("Reponse du serveur invalide.", {
+      status: response.status,
+      code: "invalid_response",
+    });
+  }
+}
+
+export function resolveApiUrl() {
+  const fromEnv = process.env.EXPO_PUBLIC_API_URL;
+  const fromConfig = Constants.expoConfig?.extra?.apiUrl;
+  const url =
+    fromEnv || (typeof fromConfig === "string" ? fromConfig : DEFAULT_API_URL);
+  return url.replace(/\/+$/, "");
+}
+
+function wait(delayMs: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CanceledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export function createApiClient(config: ApiClientConfig): ApiClient {
+  const baseUrl = config.baseUrl.replace(/\/+$/, "");
+  const timeoutMs = config.timeoutMs ?? 15000;
+  const retries = config.retries ?? 2;
+  const retryDelayMs = config.retryDelayMs ?? 500;
+  const headerProviders = [...(config.headerProviders ?? [])];
+  let unauthorizedHandler: UnauthorizedHandler | null = null;
+
+  const buildHeaders = async (extra?: Record<string, string>) => {
+    const provided = await Promise.all(
+      headerProviders.map((provider) => provider())
+    );
+    return Object.assign(
+      {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+      ...provided,
+      extra
+    ) as Record<string, string>;
+  };
+
+  const send = async (path: string, options: RequestOptions) => {
+    const {
+      headers,
+      signal,
+      timeoutMs: requestTimeout = timeoutMs,
+      retries: _retries,
+      expectsBody: _expectsBody,
+      ...init
+    } = options;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, requestTimeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      if (signal?.aborted) {
+        throw new CanceledError();
+      }
+      const response = await fetch(`${baseUrl}${path}`, {
+        ...init,
+        headers: await buildHeaders(headers),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw await parseApiError(response);
+      }
+      return response;
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      if (timedOut) {
+        throw new TimeoutError();
+      }
+      if (signal?.aborted) {
+        throw new CanceledError();
+      }
+      console.error("Erreur reseau", error);
+      throw new NetworkError();
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  };
+
+  const request = async <T>(path: string, options: RequestOptions = {}) => {
+    const method = (options.method ?? "GET").toUpperCase();
+    const maxRetries = IDEMPOTENT_METHODS.has(method)
+      ? options.retries ?? retries
+      : 0;
+
+    let attempt = 0;
+    let reauthenticated = false;
+    while (true) {
+      try {
+        const response = await send(path, options);
+        if (options.expectsBody === false || response.status === 204) {
+          return undefined as T;
+        }
+        return await readJson<T>(response);
+      } catch (error) {
+        if (
+          error instanceof UnauthorizedError &&
+          unauthorizedHandler &&
+          !reauthenticated
+        ) {
+          reauthenticated = true;
+          if (await unauthorizedHandler()) {
+            continue;
+          }
+        }
+        if (attempt >= maxRetries || !isRetryableError(error)) {
+          throw error;
+        }
+        const jitter = Math.random() * retryDelayMs;
+        await wait(retryDelayMs * 2 ** attempt + jitter, options.signal);
+        attempt += 1;
+      }
+    }
+  };
+
+  // fetch cannot report upload progress, so multipart bodies go through XHR.
+  const sendUpload = async (
+    path: string,
+    body: FormData,
+    options: UploadOptions
+  ) => {
+    const headers = await buildHeaders(options.headers);
+    delete headers["Content-Type"];
+
+    return new Promise<Response>((resolve, reject) => {
+      const { signal } = options;
+      if (signal?.aborted) {
+        reject(new CanceledError());
+        return;
+      }
+      const xhr = new XMLHttpRequest();
+      const onAbort = () => xhr.abort();
+      const settle = (callback: () => void) => () => {
+        signal?.removeEventListener("abort", onAbort);
+        callback();
+      };
+
+      xhr.open("POST", `${baseUrl}${path}`);
+      Object.entries(headers).forEach(([name, value]) =>
+        xhr.setRequestHeader(name, value)
+      );
+      xhr.timeout = options.timeoutMs ?? UPLOAD_TIMEOUT_MS;
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable && event.total > 0) {
+          options.onProgress?.(event.loaded / event.total);
+        }
+      };
+      xhr.onload = settle(() => {
+        // Some platforms report a failed connection as a load with status 0.
+        if (xhr.status === 0) {
+          reject(new NetworkError());
+          return;
+        }
+        resolve(
+          new Response(xhr.responseText, {
+            status: xhr.status,
+            headers: { "Content-Type": "application/json" },
+          })
+        );
+      });
+      xhr.onerror = settle(() => reject(new NetworkError()));
+      xhr.ontimeout = settle(() => reject(new TimeoutError()));
+      xhr.onabort = settle(() => reject(new CanceledError()));
+      signal?.addEventListener("abort", onAbort, { once: true });
+      xhr.send(body);
+    });
+  };
+
+  const upload = async <T>(
+    path: string,
+    body: FormData,
+    options: UploadOptions = {}
+  ) => {
+    let reauthenticated = false;
+    while (true) {
+      const response = await sendUpload(path, body, options);
+      if (response.ok) {
+        return readJson<T>(response);
+      }
+      const error = await parseApiError(response);
+      if (
+        error instanceof UnauthorizedError &&
+        unauthorizedHandler &&
+        !reauthenticated
+      ) {
+        reauthenticated = true;
+        if (await unauthorizedHandler()) {
+          continue;
+        }
+      }
+      throw error;
+    }
+  };
+
+  const addHeaderProvider = (provider: HeaderProvider) => {
+    headerProviders.push(provider);
+    return () => {
+      const index = headerProviders.indexOf(provider);
+      if (index >= 0) {
+        headerProviders.splice(index, 1);
+      }
+    };
+  };
+
+  const setUnauthorizedHandler = (handler: UnauthorizedHandler | null) => {
+    unauthorizedHandler = handler;
+  };
+
+  return {
+    baseUrl,
+    request,
+    upload,
+    addHeaderProvider,
+    setUnauthorizedHandler,
+  };
+}
+
+let defaultClient: ApiClient | null = null;
+
+export function getApiClient() {
+  if (!defaultClient) {
+    defaultClient = createApiClient({ baseUrl: resolveApiUrl() });
+  }
+  return defaultClient;
+}
+
+export function setApiClient(client: ApiClient) {
+  defaultClient = client;
+}
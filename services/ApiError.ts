@@ -0,0 +1,175 @@
+export type FieldErrors = Record<string, string>;
+
+type ApiErrorOptions = {
+  status?: number | null;
+  code?: string | null;
+  fieldErrors?: FieldErrors;
+  retryable?: boolean;
+};
+
+export class ApiError extends Error {
+  status: number | null;
+  code: string | null;
+  fieldErrors: FieldErrors;
+  retryable: boolean;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.status = options.status ?? null;
+    this.code = options.code ?? null;
+    this.fieldErrors = options.fieldErrors ?? {};
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message = "Connexion au serveur impossible.") {
+    super(message, { code: "network", retryable: true });
+    this.name = "NetworkError";
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(message = "Le serveur met trop de temps a repondre.") {
+    super(message, { code: "timeout", retryable: true });
+    this.name = "TimeoutError";
+  }
+}
+
+export class CanceledError extends ApiError {
+  constructor(message = "La requete a ete annulee.") {
+    super(message, { code: "canceled", retryable: false });
+    this.name = "CanceledError";
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { status: 401, ...options, retryable: false });
+    this.name = "UnauthorizedError";
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { status: 403, ...options, retryable: false });
+    this.name = "ForbiddenError";
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { status: 404, ...options, retryable: false });
+    this.name = "NotFoundError";
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { status: 409, ...options, retryable: false });
+    this.name = "ConflictError";
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { status: 422, ...options, retryable: false });
+    this.name = "ValidationError";
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { status: 500, ...options, retryable: true });
+    this.name = "ServerError";
+  }
+}
+
+type ErrorBody = {
+  message?: unknown;
+  error?: unknown;
+  code?: unknown;
+  errors?: unknown;
+  fieldErrors?: unknown;
+};
+
+function parseFieldErrors(raw: unknown): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  if (Array.isArray(raw)) {
+    raw.forEach((item) => {
+      const field = item?.field ?? item?.path ?? item?.param;
+      const message = item?.message ?? item?.msg;
+      if (typeof field === "string" && typeof message === "string") {
+        fieldErrors[field] = message;
+      }
+    });
+  } else if (raw && typeof raw === "object") {
+    Object.entries(raw).forEach(([field, value]) => {
+      const message = Array.isArray(value) ? value[0] : value;
+      if (typeof message === "string") {
+        fieldErrors[field] = message;
+      }
+    });
+  }
+  return fieldErrors;
+}
+
+export async function parseApiError(response: Response): Promise<ApiError> {
+  let body: ErrorBody | null = null;
+  try {
+    body = (await response.json()) as ErrorBody;
+  } catch {
+    body = null;
+  }
+
+  const status = response.status;
+  const message =
+    typeof body?.message === "string"
+      ? body.message
+      : `La requête a échoué avec le statut ${status}`;
+  const code =
+    typeof body?.code === "string"
+      ? body.code
+      : typeof body?.error === "string"
+      ? body.error
+      : null;
+  const fieldErrors = parseFieldErrors(body?.fieldErrors ?? body?.errors);
+  const options = { status, code, fieldErrors };
+
+  if (status === 401) {
+    return new UnauthorizedError(message, options);
+  }
+  // Forbidden is not an expired session: it must not trigger a refresh.
+  if (status === 403) {
+    return new ForbiddenError(message, options);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, options);
+  }
+  if (status === 409 || status === 412) {
+    return new ConflictError(message, options);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, options);
+  }
+  if (status === 408 || status === 429) {
+    return new ApiError(message, { ...options, retryable: true });
+  }
+  if (status >= 500) {
+    return new ServerError(message, options);
+  }
+  return new ApiError(message, options);
+}
+
+export function isNetworkError(error: unknown) {
+  return error instanceof NetworkError || error instanceof TimeoutError;
+}
+
+export function isCanceledError(error: unknown) {
+  return error instanceof CanceledError;
+}
+
+export function isRetryableError(error: unknown) {
+  return error instanceof ApiError && error.retryable;
+}
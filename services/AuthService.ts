@@ -0,0 +1,215 @@
+import { ApiClient, createApiClient, getApiClient } from "./ApiClient";
+import { UnauthorizedError } from "./ApiError";
+import { setStorageScope } from "./OfflineStorage";
+import {
+  StoredSession,
+  clearStoredSession,
+  loadStoredSession,
+  saveStoredSession,
+} from "./TokenStorage";
+
+export type AuthUser = StoredSession["user"];
+export type AuthSession = StoredSession;
+
+export type RegisterInput = {
+  name: string;
+  email: string;
+  password: string;
+};
+
+type AuthResponse = {
+  accessToken?: string;
+  token?: string;
+  refreshToken?: string | null;
+  expiresIn?: number | null;
+  user: {
+    id: number | string;
+    email: string;
+    name?: string | null;
+  };
+};
+
+type SessionListener = (session: AuthSession | null) => void;
+
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+let currentSession: AuthSession | null = null;
+let refreshing: Promise<AuthSession | null> | null = null;
+let authClient: ApiClient | null = null;
+const listeners = new Set<SessionListener>();
+
+// Auth calls use their own client so they never carry or refresh a token.
+function getAuthClient() {
+  const baseUrl = getApiClient().baseUrl;
+  if (!authClient || authClient.baseUrl !== baseUrl) {
+    authClient = createApiClient({ baseUrl, retries: 0 });
+  }
+  return authClient;
+}
+
+function mapSession(response: AuthResponse): AuthSession {
+  const accessToken = response.accessToken ?? response.token;
+  if (!accessToken) {
+    throw new UnauthorizedError("Reponse d'authentification invalide.");
+  }
+  return {
+    accessToken,
+    refreshToken: response.refreshToken ?? null,
+    expiresAt:
+      typeof response.expiresIn === "number"
+        ? Date.now() + response.expiresIn * 1000
+        : null,
+    user: {
+      id: String(response.user.id),
+      email: response.user.email,
+      name: response.user.name ?? null,
+    },
+  };
+}
+
+async function setSession(session: AuthSession | null) {
+  currentSession = session;
+  setStorageScope(session?.user.id ?? null);
+  if (session) {
+    await saveStoredSession(session);
+  } else {
+    await clearStoredSession();
+  }
+  listeners.forEach((listener) => listener(session));
+}
+
+export function getCurrentSession() {
+  return currentSession;
+}
+
+export function subscribeToSession(listener: SessionListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function login(email: string, password: string) {
+  const response = await getAuthClient().request<AuthResponse>("/auth/login", {
+    method: "POST",
+    body: JSON.stringify({ email: email.trim(), password }),
+  });
+  const session = mapSession(response);
+  await setSession(session);
+  return session;
+}
+
+export async function register(input: RegisterInput) {
+  const response = await getAuthClient().request<AuthResponse>(
+    "/auth/register",
+    {
+      method: "POST",
+      body: JSON.stringify({
+        name: input.name.trim(),
+        email: input.email.trim(),
+        password: input.password,
+      }),
+    }
+  );
+  const session = mapSession(response);
+  await setSession(session);
+  return session;
+}
+
+export async function refreshSession(): Promise<AuthSession | null> {
+  const session = currentSession;
+  if (!session?.refreshToken) {
+    if (session) {
+      await setSession(null);
+    }
+    return null;
+  }
+  if (!refreshing) {
+    refreshing = getAuthClient()
+      .request<AuthResponse>("/auth/refresh", {
+        method: "POST",
+        body: JSON.stringify({ refreshToken: session.refreshToken }),
+      })
+      .then(async (response) => {
+        const next = mapSession({
+          ...response,
+          refreshToken: response.refreshToken ?? session.refreshToken,
+          user: response.user ?? session.user,
+        });
+        await setSession(next);
+        return next;
+      })
+      .catch(async (error) => {
+        // Keep the session when offline so cached data stays reachable.
+        if (error instanceof UnauthorizedError) {
+          await setSession(null);
+          return null;
+        }
+        throw error;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+}
+
+async function getValidSession() {
+  const session = currentSession;
+  if (
+    session?.expiresAt &&
+    session.refreshToken &&
+    session.expiresAt - REFRESH_MARGIN_MS < Date.now()
+  ) {
+    try {
+      return await refreshSession();
+    } catch (error) {
+      console.error("Erreur de rafraichissement de la session", error);
+    }
+  }
+  return currentSession;
+}
+
+export async function restoreSession() {
+  const stored = await loadStoredSession();
+  currentSession = stored;
+  setStorageScope(stored?.user.id ?? null);
+  return getValidSession();
+}
+
+export async function logout() {
+  const session = currentSession;
+  if (session) {
+    try {
+      await getAuthClient().request("/auth/logout", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${session.accessToken}` },
+        body: JSON.stringify({ refreshToken: session.refreshToken }),
+        expectsBody: false,
+      });
+    } catch (error) {
+      console.error("Erreur de deconnexion", error);
+    }
+  }
+  await setSession(null);
+}
+
+export function installAuthentication(client: ApiClient = getApiClient()) {
+  const removeProvider = client.addHeaderProvider(
+    async (): Promise<Record<string, string>> => {
+      const session = await getValidSession();
+      return session ? { Authorization: `Bearer ${session.accessToken}` } : {};
+    }
+  );
+  client.setUnauthorizedHandler(async () => {
+    try {
+      return Boolean(await refreshSession());
+    } catch {
+      return false;
+    }
+  });
+  return () => {
+    removeProvider();
+    client.setUnauthorizedHandler(null);
+  };
+}
@@ -0,0 +1,138 @@
+import {
+  Book,
+  BookPayload,
+  ReadingStatus,
+  toBookPayload,
+} from "./BooksService";
+import { formatStatusDate, getStatusLabel } from "./ReadingStatus";
+
+export type MergeField = keyof BookPayload;
+
+export type FieldConflict = {
+  field: MergeField;
+  label: string;
+  local: BookPayload[MergeField];
+  remote: BookPayload[MergeField];
+  changedLocally: boolean;
+};
+
+export const MERGE_FIELDS: { field: MergeField; label: string }[] = [
+  { field: "name", label: "Titre" },
+  { field: "author", label: "Auteur" },
+  { field: "editor", label: "Editeur" },
+  { field: "year", label: "Annee de publication" },
+  { field: "status", label: "Statut de lecture" },
+  { field: "startedAt", label: "Debut de lecture" },
+  { field: "finishedAt", label: "Fin de lecture" },
+  { field: "favorite", label: "Favori" },
+  { field: "rating", label: "Note" },
+  { field: "cover", label: "Couverture" },
+  { field: "themes", label: "Themes" },
+  { field: "isbn", label: "ISBN" },
+  { field: "openLibraryWorkKey", label: "Oeuvre OpenLibrary" },
+  { field: "totalPages", label: "Nombre de pages" },
+  { field: "currentPage", label: "Page actuelle" },
+];
+
+function normalizeValue(value: BookPayload[MergeField]) {
+  if (Array.isArray(value)) {
+    return value.length > 0
+      ? value
+          .map((item) => item.toLowerCase())
+          .sort()
+          .join("\n")
+      : null;
+  }
+  if (value === undefined || value === null || value === "" || value === 0) {
+    return null;
+  }
+  return value;
+}
+
+function isSameValue(a: BookPayload[MergeField], b: BookPayload[MergeField]) {
+  const left = normalizeValue(a);
+  const right = normalizeValue(b);
+  if (left === false || right === false) {
+    return Boolean(left) === Boolean(right);
+  }
+  return left === right;
+}
+
+export function getFieldConflicts(
+  local: BookPayload,
+  remote: Book,
+  base?: Book
+): FieldConflict[] {
+  const remotePayload = toBookPayload(remote);
+  const basePayload = base ? toBookPayload(base) : null;
+  return MERGE_FIELDS.filter(
+    ({ field }) => !isSameValue(local[field], remotePayload[field])
+  ).map(({ field, label }) => ({
+    field,
+    label,
+    local: local[field],
+    remote: remotePayload[field],
+    changedLocally: basePayload
+      ? !isSameValue(local[field], basePayload[field])
+      : true,
+  }));
+}
+
+export function mergeBookChanges(
+  base: Book,
+  local: BookPayload,
+  remote: Book
+): { payload: BookPayload; conflicts: MergeField[] } {
+  const basePayload = toBookPayload(base);
+  const payload = toBookPayload(remote);
+  const conflicts: MergeField[] = [];
+
+  MERGE_FIELDS.forEach(({ field }) => {
+    if (isSameValue(local[field], basePayload[field])) {
+      return;
+    }
+    if (
+      isSameValue(payload[field], basePayload[field]) ||
+      isSameValue(payload[field], local[field])
+    ) {
+      Object.assign(payload, { [field]: local[field] });
+      return;
+    }
+    conflicts.push(field);
+  });
+
+  return {
+    payload: { ...payload, read: payload.status === "read" },
+    conflicts,
+  };
+}
+
+export function formatFieldValue(
+  field: MergeField,
+  value: BookPayload[MergeField]
+) {
+  if (field === "read" || field === "favorite") {
+    return value ? "Oui" : "Non";
+  }
+  if (field === "rating") {
+    return typeof value === "number" && value > 0
+      ? `${value} etoile(s)`
+      : "Non renseignee";
+  }
+  if (field === "status" && value) {
+    return getStatusLabel(value as ReadingStatus);
+  }
+  if ((field === "startedAt" || field === "finishedAt") && value) {
+    return formatStatusDate(value as string) ?? String(value);
+  }
+  if (field === "cover") {
+    return value ? "Image definie" : "Aucune image";
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(", ") : "Aucun theme";
+  }
+  if (value === undefined || value === null || value === "") {
+    return "Non renseigne";
+  }
+  return String(value);
+}
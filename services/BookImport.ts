@@ -0,0 +1,403 @@
+import { NetworkError, isNetworkError } from "./ApiError";
+import {
+  Book,
+  BookPayload,
+  ReadingStatus,
+  createBook,
+  getAllBooks,
+} from "./BooksService";
+import { CsvTable } from "./Csv";
+import { normalizeText } from "./LocalSearch";
+import { queueCreateBook } from "./MutationQueue";
+import { isBooksCacheComplete, loadBooksCache } from "./OfflineStorage";
+import { normalizeIsbn } from "./OpenLibraryService";
+
+export type ImportFormat = "goodreads" | "babelio" | "generic";
+
+export type ImportField =
+  | "name"
+  | "author"
+  | "editor"
+  | "year"
+  | "isbn"
+  | "rating"
+  | "totalPages"
+  | "status"
+  | "finishedAt"
+  | "themes";
+
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type ImportRow = {
+  line: number;
+  payload: BookPayload;
+  errors: string[];
+  duplicate: string | null;
+};
+
+export type ImportReport = {
+  created: number;
+  queued: number;
+  failed: { line: number; name: string; message: string }[];
+  canceled: number;
+};
+
+type ImportOptions = {
+  batchSize?: number;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+};
+
+export const IMPORT_FIELDS: {
+  field: ImportField;
+  label: string;
+  required?: boolean;
+}[] = [
+  { field: "name", label: "Titre", required: true },
+  { field: "author", label: "Auteur", required: true },
+  { field: "editor", label: "Editeur" },
+  { field: "year", label: "Annee" },
+  { field: "isbn", label: "ISBN" },
+  { field: "rating", label: "Note" },
+  { field: "totalPages", label: "Pages" },
+  { field: "status", label: "Statut" },
+  { field: "finishedAt", label: "Date de lecture" },
+  { field: "themes", label: "Themes" },
+];
+
+export const IMPORT_FORMATS: { value: ImportFormat; label: string }[] = [
+  { value: "goodreads", label: "Goodreads" },
+  { value: "babelio", label: "Babelio" },
+  { value: "generic", label: "Autre" },
+];
+
+// Column names are compared after normalizeText, first match wins.
+const FORMAT_COLUMNS: Record<ImportFormat, Record<ImportField, string[]>> = {
+  goodreads: {
+    name: ["title"],
+    author: ["author"],
+    editor: ["publisher"],
+    year: ["original publication year", "year published"],
+    isbn: ["isbn13", "isbn"],
+    rating: ["my rating"],
+    totalPages: ["number of pages"],
+    status: ["exclusive shelf"],
+    finishedAt: ["date read"],
+    themes: ["bookshelves"],
+  },
+  babelio: {
+    name: ["titre"],
+    author: ["auteur", "auteurs"],
+    editor: ["editeur", "edition"],
+    year: ["date de publication", "annee de publication", "annee"],
+    isbn: ["isbn", "ean"],
+    rating: ["note", "ma note"],
+    totalPages: ["nombre de pages", "pages"],
+    status: ["statut", "etat"],
+    finishedAt: ["date de lecture", "date de fin de lecture", "lu le"],
+    themes: ["etiquettes", "tags", "genres", "themes"],
+  },
+  generic: {
+    name: ["title", "titre", "nom", "name"],
+    author: ["author", "auteur", "authors", "auteurs"],
+    editor: ["publisher", "editeur", "edition"],
+    year: ["year", "annee", "year published", "date de publication"],
+    isbn: ["isbn13", "isbn", "ean"],
+    rating: ["rating", "note", "my rating", "ma note"],
+    totalPages: ["pages", "number of pages", "nombre de pages"],
+    status: ["status", "statut", "shelf", "exclusive shelf", "etat"],
+    finishedAt: ["date read", "date de lecture", "finished", "termine le"],
+    themes: ["themes", "theme", "tags", "genres", "bookshelves"],
+  },
+};
+
+const STATUS_VALUES: { status: ReadingStatus; values: string[] }[] = [
+  { status: "read", values: ["read", "lu", "lus", "termine"] },
+  {
+    status: "reading",
+    values: ["currently reading", "reading", "en cours", "en cours de lecture"],
+  },
+  {
+    status: "abandoned",
+    values: ["abandoned", "did not finish", "dnf", "abandonne"],
+  },
+  {
+    status: "want-to-read",
+    values: ["to read", "want to read", "a lire", "pense bete", "wishlist"],
+  },
+];
+
+// Goodreads repeats the exclusive shelf in the bookshelves column.
+const SHELF_NAMES = new Set(["read", "to read", "currently reading"]);
+
+export function detectImportFormat(headers: string[]): ImportFormat {
+  const names = new Set(headers.map(normalizeText));
+  if (names.has("book id") && names.has("exclusive shelf")) {
+    return "goodreads";
+  }
+  if (names.has("titre") && (names.has("statut") || names.has("note"))) {
+    return "babelio";
+  }
+  return "generic";
+}
+
+export function getColumnMapping(
+  headers: string[],
+  format: ImportFormat
+): ColumnMapping {
+  const names = headers.map(normalizeText);
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(({ field }) => {
+    for (const candidate of FORMAT_COLUMNS[format][field]) {
+      const index = names.indexOf(candidate);
+      if (index >= 0) {
+        mapping[field] = index;
+        break;
+      }
+    }
+  });
+  return mapping;
+}
+
+function parseStatus(value: string): ReadingStatus | null {
+  const normalized = normalizeText(value);
+  return (
+    STATUS_VALUES.find(({ values }) => values.includes(normalized))?.status ??
+    null
+  );
+}
+
+function parseDate(value: string) {
+  const iso = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  const french = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})/);
+  const parts = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : french
+      ? [Number(french[3]), Number(french[2]), Number(french[1])]
+      : null;
+  if (!parts) {
+    return null;
+  }
+  const date = new Date(parts[0], parts[1] - 1, parts[2], 12);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function parseThemes(value: string) {
+  const seen = new Set<string>();
+  return value
+    .split(/[,;|]/)
+    .map((theme) => theme.trim().replace(/\s+/g, " "))
+    .filter((theme) => {
+      const key = normalizeText(theme);
+      if (!key || SHELF_NAMES.has(key) || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+}
+
+export function mapImportRow(
+  row: string[],
+  mapping: ColumnMapping,
+  line: number
+): ImportRow {
+  const read = (field: ImportField) => {
+    const index = mapping[field];
+    return index === undefined ? "" : (row[index] ?? "").trim();
+  };
+  const errors: string[] = [];
+
+  const name = read("name");
+  const author = read("author");
+  if (!name) {
+    errors.push("Titre manquant.");
+  }
+  if (!author) {
+    errors.push("Auteur manquant.");
+  }
+
+  const yearText = read("year").match(/\d{4}/)?.[0];
+  const year = yearText ? Number(yearText) : null;
+  if (year && year > new Date().getFullYear() + 1) {
+    errors.push(`Annee invalide : ${year}.`);
+  }
+
+  const isbnText = read("isbn").replace(/^="?|"$/g, "");
+  const isbn = isbnText ? normalizeIsbn(isbnText) : null;
+  if (isbnText && !isbn) {
+    errors.push(`ISBN invalide : ${isbnText}.`);
+  }
+
+  const ratingValue = Number(read("rating").replace(",", "."));
+  const rating =
+    Number.isFinite(ratingValue) && ratingValue > 0
+      ? Math.min(Math.round(ratingValue), 5)
+      : null;
+
+  const pagesValue = Number(read("totalPages"));
+  const totalPages =
+    Number.isInteger(pagesValue) && pagesValue > 0 ? pagesValue : null;
+
+  const statusText = read("status");
+  const finishedAt = read("finishedAt") ? parseDate(read("finishedAt")) : null;
+  let status = statusText ? parseStatus(statusText) : null;
+  if (statusText && !status) {
+    errors.push(`Statut inconnu : ${statusText}.`);
+  }
+  status = status ?? (finishedAt ? "read" : "want-to-read");
+
+  return {
+    line,
+    payload: {
+      name,
+      author,
+      editor: read("editor") || undefined,
+      year,
+      isbn,
+      rating,
+      totalPages,
+      currentPage: status === "read" ? totalPages : null,
+      status,
+      read: status === "read",
+      startedAt: null,
+      finishedAt:
+        status === "read" || status === "abandoned" ? finishedAt : null,
+      favorite: false,
+      cover: null,
+      themes: parseThemes(read("themes")),
+    },
+    errors,
+    duplicate: null,
+  };
+}
+
+function titleKey(payload: Pick<BookPayload, "name" | "author">) {
+  return `${normalizeText(payload.name)}|${normalizeText(payload.author)}`;
+}
+
+// Matches by ISBN first, then by title and author.
+export function markDuplicates(rows: ImportRow[], books: Book[]) {
+  const byIsbn = new Map<string, string>();
+  const byTitle = new Map<string, string>();
+  books.forEach((book) => {
+    const isbn = book.isbn ? normalizeIsbn(book.isbn) : null;
+    if (isbn) {
+      byIsbn.set(isbn, `Deja dans la bibliotheque : ${book.name}`);
+    }
+    byTitle.set(titleKey(book), `Deja dans la bibliotheque : ${book.name}`);
+  });
+
+  return rows.map((row) => {
+    const { isbn } = row.payload;
+    const duplicate =
+      (isbn ? byIsbn.get(isbn) : undefined) ??
+      byTitle.get(titleKey(row.payload)) ??
+      null;
+    if (row.errors.length === 0) {
+      const label = `Doublon de la ligne ${row.line}`;
+      if (isbn && !byIsbn.has(isbn)) {
+        byIsbn.set(isbn, label);
+      }
+      if (!byTitle.has(titleKey(row.payload))) {
+        byTitle.set(titleKey(row.payload), label);
+      }
+    }
+    return { ...row, duplicate };
+  });
+}
+
+export function buildImportRows(
+  table: CsvTable,
+  mapping: ColumnMapping,
+  books: Book[]
+) {
+  return markDuplicates(
+    table.rows.map((row, index) => mapImportRow(row, mapping, index + 2)),
+    books
+  );
+}
+
+// Duplicate detection needs the whole library, not only the cached pages.
+export async function loadLibraryForImport(signal?: AbortSignal) {
+  try {
+    return {
+      books: await getAllBooks({ signal }),
+      offline: false,
+      partial: false,
+    };
+  } catch (error) {
+    if (!isNetworkError(error)) {
+      throw error;
+    }
+    const cached = await loadBooksCache();
+    return {
+      books: cached?.books ?? [],
+      offline: true,
+      partial: !cached || !isBooksCacheComplete(cached),
+    };
+  }
+}
+
+export async function importBooks(
+  rows: ImportRow[],
+  { batchSize = 5, signal, onProgress }: ImportOptions = {}
+): Promise<ImportReport> {
+  const report: ImportReport = {
+    created: 0,
+    queued: 0,
+    failed: [],
+    canceled: 0,
+  };
+  let offline = false;
+
+  const fail = (row: ImportRow, error: unknown) => {
+    report.failed.push({
+      line: row.line,
+      name: row.payload.name,
+      message: (error as Error).message,
+    });
+  };
+  // Queued one at a time, in file order.
+  const queueRow = async (row: ImportRow) => {
+    try {
+      await queueCreateBook(row.payload);
+      report.queued += 1;
+    } catch (error) {
+      fail(row, error);
+    }
+  };
+
+  for (let start = 0; start < rows.length; start += batchSize) {
+    if (signal?.aborted) {
+      report.canceled = rows.length - start;
+      break;
+    }
+    const batch = rows.slice(start, start + batchSize);
+    if (offline) {
+      for (const row of batch) {
+        await queueRow(row);
+      }
+    } else {
+      const results = await Promise.allSettled(
+        batch.map((row) => createBook(row.payload))
+      );
+      for (const [index, result] of results.entries()) {
+        const row = batch[index];
+        if (result.status === "fulfilled") {
+          report.created += 1;
+        } else if (result.reason instanceof NetworkError) {
+          // Once the network is gone, the remaining rows go to the queue.
+          offline = true;
+          await queueRow(row);
+        } else {
+          // A timeout may have created the book: queueing it could duplicate.
+          fail(row, result.reason);
+        }
+      }
+    }
+    onProgress?.(Math.min(start + batch.length, rows.length), rows.length);
+  }
+
+  return report;
+}
@@ -1,3 +1,7 @@
+import { RequestOptions, getApiClient } from "./ApiClient";
+import { ConflictError } from "./ApiError";
+
+export type ReadingStatus = "want-to-read" | "reading" | "read" | "abandoned";
 
 export type Book = {
   id: string;
@@ -6,10 +10,20 @@ export type Book = {
   editor?: string;
   year?: number | null;
   read?: boolean;
+  status?: ReadingStatus | null;
+  startedAt?: string | null;
+  finishedAt?: string | null;
   favorite?: boolean;
   theme?: string;
+  themes?: string[];
   rating?: number | null;
   cover?: string | null;
+  isbn?: string | null;
+  openLibraryWorkKey?: string | null;
+  totalPages?: number | null;
+  currentPage?: number | null;
+  version?: number;
+  updatedAt?: string | null;
 };
 
 export type BookPayload = {
@@ -18,9 +32,27 @@ export type BookPayload = {
   editor?: string;
   year?: number | null;
   read?: boolean;
+  status?: ReadingStatus;
+  startedAt?: string | null;
+  finishedAt?: string | null;
   favorite?: boolean;
   rating?: number | null;
   cover?: string | null;
+  themes?: string[];
+  isbn?: string | null;
+  openLibraryWorkKey?: string | null;
+  totalPages?: number | null;
+  currentPage?: number | null;
+};
+
+export type NoteKind = "quote" | "thought" | "summary";
+
+export type NoteInput = {
+  content: string;
+  kind?: NoteKind | null;
+  pageStart?: number | null;
+  pageEnd?: number | null;
+  tags?: string[];
 };
 
 export type Note = {
@@ -28,12 +60,30 @@ export type Note = {
   bookId: string;
   content: string;
   dateISO: string;
+  updatedAt?: string | null;
+  kind?: NoteKind | null;
+  pageStart?: number | null;
+  pageEnd?: number | null;
+  tags?: string[];
+  bookName?: string | null;
+};
+
+export type ReadingSessionInput = {
+  pagesRead: number;
+  durationMinutes?: number | null;
+  dateISO: string;
+};
+
+export type ReadingSession = ReadingSessionInput & {
+  id: string;
+  bookId: string;
 };
 
 export type BooksStats = {
   totalBooks: number;
   readCount: number;
   unreadCount: number;
+  statusCounts?: Partial<Record<ReadingStatus, number>>;
   favoritesCount: number;
   averageRating: number | null;
 };
@@ -44,50 +94,41 @@ export type SortOrder = "asc" | "desc";
 export type GetBooksParams = {
   query?: string;
   read?: boolean | null;
+  status?: ReadingStatus;
   favorite?: boolean | null;
   theme?: string;
   sort?: SortField;
   order?: SortOrder;
+  page?: number;
+  pageSize?: number;
+  cursor?: string | null;
 };
 
-const API_URL = "https://api-books-kycs.onrender.com";
-
-async function request<T>(
-  path: string,
-  init?: RequestInit,
-  expectsBody = true
-): Promise<T> {
-  const response = await fetch(`${API_URL}${path}`, {
-    headers: {
-      "Content-Type": "application/json",
-      Accept: "application/json",
-      ...init?.headers,
-    },
-    ...init,
-  });
+export type BookPage = {
+  items: Book[];
+  total: number;
+  page: number;
+  pageSize: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+};
 
-  if (!response.ok) {
-    const message = await safeParseError(response);
-    throw new Error(message);
-  }
+export const DEFAULT_PAGE_SIZE = 20;
 
-  if (!expectsBody) {
-    return undefined as T;
-  }
+export class BookConflictError extends ConflictError {
+  remote: Book;
 
-  return (await response.json()) as T;
+  constructor(remote: Book) {
+    super("Ce livre a ete modifie depuis son chargement.", {
+      code: "book_conflict",
+    });
+    this.name = "BookConflictError";
+    this.remote = remote;
+  }
 }
 
-async function safeParseError(response: Response) {
-  try {
-    const body = await response.json();
-    if (body?.message) {
-      return body.message;
-    }
-    return `La requête a échoué avec le statut ${response.status}`;
-  } catch {
-    return `La requête a échoué avec le statut ${response.status}`;
-  }
+async function request<T>(path: string, options?: RequestOptions) {
+  return getApiClient().request<T>(path, options);
 }
 
 function buildQuery(params?: GetBooksParams) {
@@ -101,6 +142,9 @@ function buildQuery(params?: GetBooksParams) {
   if (typeof params.read === "boolean") {
     query.set("read", String(params.read));
   }
+  if (params.status) {
+    query.set("status", params.status);
+  }
   if (typeof params.favorite === "boolean") {
     query.set("favorite", String(params.favorite));
   }
@@ -113,17 +157,110 @@ function buildQuery(params?: GetBooksParams) {
   if (params.order) {
     query.set("order", params.order);
   }
+  if (params.cursor) {
+    query.set("cursor", params.cursor);
+  } else if (params.page) {
+    query.set("page", String(params.page));
+  }
+  if (params.pageSize) {
+    query.set("pageSize", String(params.pageSize));
+  }
   const qs = query.toString();
   return qs ? `?${qs}` : "";
 }
 
-export async function getBooks(params?: GetBooksParams) {
+export async function getBooks(
+  params?: GetBooksParams,
+  options?: RequestOptions
+) {
   const query = buildQuery(params);
-  return request<Book[]>(`/books${query}`);
+  return request<Book[]>(`/books${query}`, options);
 }
 
-export async function getBook(id: string) {
-  return request<Book>(`/books/${id}`);
+type BookPageResponse =
+  | Book[]
+  | {
+      items?: Book[];
+      data?: Book[];
+      total?: number;
+      page?: number;
+      pageSize?: number;
+      nextCursor?: string | null;
+    };
+
+export async function getBooksPage(
+  params: GetBooksParams = {},
+  options?: RequestOptions
+): Promise<BookPage> {
+  const page = params.page ?? 1;
+  const pageSize = params.pageSize ?? DEFAULT_PAGE_SIZE;
+  const query = buildQuery({ ...params, page, pageSize });
+  const response = await request<BookPageResponse>(`/books${query}`, options);
+
+  if (Array.isArray(response)) {
+    return {
+      items: response,
+      total: response.length,
+      page,
+      pageSize,
+      nextCursor: null,
+      hasMore: false,
+    };
+  }
+
+  const items = response.items ?? response.data ?? [];
+  const total = response.total ?? items.length;
+  const nextCursor = response.nextCursor ?? null;
+  const currentPage = response.page ?? page;
+  const currentPageSize = response.pageSize ?? pageSize;
+  return {
+    items,
+    total,
+    page: currentPage,
+    pageSize: currentPageSize,
+    nextCursor,
+    hasMore:
+      nextCursor !== null ||
+      (items.length > 0 && currentPage * currentPageSize < total),
+  };
+}
+
+// Walks every page, for features that need the whole library at once.
+export async function getAllBooks(options?: RequestOptions) {
+  let books: Book[] = [];
+  let page = 1;
+  let cursor: string | null = null;
+  while (true) {
+    const result = await getBooksPage(
+      { page, cursor, pageSize: 100 },
+      options
+    );
+    books = mergeBookPages(books, result.items);
+    if (!result.hasMore) {
+      return books;
+    }
+    page += 1;
+    cursor = result.nextCursor;
+  }
+}
+
+export function mergeBookPages(current: Book[], incoming: Book[]) {
+  const indexById = new Map(current.map((book, index) => [book.id, index]));
+  const merged = [...current];
+  incoming.forEach((book) => {
+    const index = indexById.get(book.id);
+    if (index === undefined) {
+      indexById.set(book.id, merged.length);
+      merged.push(book);
+    } else {
+      merged[index] = book;
+    }
+  });
+  return merged;
+}
+
+export async function getBook(id: string, options?: RequestOptions) {
+  return request<Book>(`/books/${id}`, options);
 }
 
 export async function createBook(payload: BookPayload) {
@@ -138,47 +275,231 @@ type NoteResponse = {
   bookId: number;
   content: string;
   dateISO: string;
+  updatedAt?: string | null;
+  kind?: string | null;
+  pageStart?: number | null;
+  pageEnd?: number | null;
+  tags?: string[] | null;
+  bookName?: string | null;
+};
+
+type ReadingSessionResponse = {
+  id: number;
+  bookId: number;
+  pagesRead: number;
+  durationMinutes?: number | null;
+  dateISO: string;
 };
 
+const NOTE_KINDS: NoteKind[] = ["quote", "thought", "summary"];
+
 function mapNote(response: NoteResponse): Note {
   return {
     id: String(response.id),
     bookId: String(response.bookId),
     content: response.content,
     dateISO: response.dateISO,
+    updatedAt: response.updatedAt ?? null,
+    kind: NOTE_KINDS.find((kind) => kind === response.kind) ?? null,
+    pageStart: response.pageStart ?? null,
+    pageEnd: response.pageEnd ?? null,
+    tags: Array.isArray(response.tags) ? response.tags : [],
+    bookName: response.bookName ?? null,
   };
 }
 
-export async function updateBook(id: string, payload: BookPayload) {
-  return request<Book>(`/books/${id}`, {
-    method: "PUT",
-    body: JSON.stringify(payload),
-  });
+function mapReadingSession(response: ReadingSessionResponse): ReadingSession {
+  return {
+    id: String(response.id),
+    bookId: String(response.bookId),
+    pagesRead: response.pagesRead,
+    durationMinutes: response.durationMinutes ?? null,
+    dateISO: response.dateISO,
+  };
+}
+
+// Older records only carry a single `theme`; `themes` wins when present.
+export function getBookThemes(book: Pick<Book, "theme" | "themes">) {
+  if (Array.isArray(book.themes)) {
+    return book.themes;
+  }
+  return book.theme ? [book.theme] : [];
+}
+
+// Records created before statuses existed only carry the `read` flag.
+export function getReadingStatus(
+  book: Pick<Book, "read" | "status">
+): ReadingStatus {
+  if (book.status) {
+    return book.status;
+  }
+  return book.read ? "read" : "want-to-read";
+}
+
+export function toBookPayload(
+  book: Book,
+  overrides?: Partial<BookPayload>
+): BookPayload {
+  return {
+    name: book.name,
+    author: book.author,
+    editor: book.editor,
+    year: book.year ?? undefined,
+    read: book.read ?? false,
+    status: getReadingStatus(book),
+    startedAt: book.startedAt ?? null,
+    finishedAt: book.finishedAt ?? null,
+    favorite: book.favorite ?? false,
+    rating: book.rating ?? null,
+    cover: book.cover ?? null,
+    themes: getBookThemes(book),
+    isbn: book.isbn ?? null,
+    openLibraryWorkKey: book.openLibraryWorkKey ?? null,
+    totalPages: book.totalPages ?? null,
+    currentPage: book.currentPage ?? null,
+    ...overrides,
+  };
+}
+
+export function isSameBookVersion(base: Book, remote: Book) {
+  if (typeof base.version === "number" && typeof remote.version === "number") {
+    return base.version === remote.version;
+  }
+  if (base.updatedAt && remote.updatedAt) {
+    const baseTime = new Date(base.updatedAt).getTime();
+    return baseTime === new Date(remote.updatedAt).getTime();
+  }
+  return true;
+}
+
+function buildVersionHeaders(base: Book): Record<string, string> {
+  if (typeof base.version === "number") {
+    return { "If-Match": `"${base.version}"` };
+  }
+  if (base.updatedAt) {
+    return { "If-Unmodified-Since": new Date(base.updatedAt).toUTCString() };
+  }
+  return {};
+}
+
+export async function updateBook(
+  id: string,
+  payload: BookPayload,
+  base?: Book
+) {
+  if (base) {
+    const remote = await getBook(id);
+    if (!isSameBookVersion(base, remote)) {
+      throw new BookConflictError(remote);
+    }
+  }
+  try {
+    return await request<Book>(`/books/${id}`, {
+      method: "PUT",
+      headers: base ? buildVersionHeaders(base) : undefined,
+      body: JSON.stringify(payload),
+    });
+  } catch (error) {
+    if (base && error instanceof ConflictError) {
+      throw new BookConflictError(await getBook(id));
+    }
+    throw error;
+  }
+}
+
+export async function updateBookFields(
+  book: Book,
+  changes: Partial<BookPayload>
+) {
+  try {
+    return await updateBook(book.id, toBookPayload(book, changes), book);
+  } catch (error) {
+    if (!(error instanceof BookConflictError)) {
+      throw error;
+    }
+    return updateBook(
+      book.id,
+      toBookPayload(error.remote, changes),
+      error.remote
+    );
+  }
 }
 
 export async function deleteBook(id: string) {
-  return request<undefined>(
-    `/books/${id}`,
-    {
-      method: "DELETE",
-    },
-    false
-  );
+  return request<undefined>(`/books/${id}`, {
+    method: "DELETE",
+    expectsBody: false,
+  });
 }
 
-export async function getStats() {
-  return request<BooksStats>("/stats");
+export async function getStats(options?: RequestOptions) {
+  return request<BooksStats>("/stats", options);
 }
 
-export async function getBookNotes(bookId: string) {
-  const notes = await request<NoteResponse[]>(`/books/${bookId}/notes`);
+export async function getBookNotes(bookId: string, options?: RequestOptions) {
+  const notes = await request<NoteResponse[]>(
+    `/books/${bookId}/notes`,
+    options
+  );
   return notes.map(mapNote);
 }
 
-export async function addBookNote(bookId: string, content: string) {
+export async function getAllNotes(options?: RequestOptions) {
+  const notes = await request<NoteResponse[]>("/notes", options);
+  return notes.map(mapNote);
+}
+
+export async function addBookNote(bookId: string, input: NoteInput) {
   const note = await request<NoteResponse>(`/books/${bookId}/notes`, {
     method: "POST",
-    body: JSON.stringify({ content }),
+    body: JSON.stringify(input),
   });
   return mapNote(note);
 }
+
+export async function updateBookNote(
+  bookId: string,
+  noteId: string,
+  input: NoteInput
+) {
+  const note = await request<NoteResponse>(
+    `/books/${bookId}/notes/${noteId}`,
+    {
+      method: "PUT",
+      body: JSON.stringify(input),
+    }
+  );
+  return mapNote(note);
+}
+
+export async function deleteBookNote(bookId: string, noteId: string) {
+  return request<undefined>(`/books/${bookId}/notes/${noteId}`, {
+    method: "DELETE",
+    expectsBody: false,
+  });
+}
+
+export async function getReadingSessions(
+  bookId: string,
+  options?: RequestOptions
+) {
+  const sessions = await request<ReadingSessionResponse[]>(
+    `/books/${bookId}/sessions`,
+    options
+  );
+  return sessions.map(mapReadingSession);
+}
+
+export async function addReadingSession(
+  bookId: string,
+  input: ReadingSessionInput
+) {
+  const session = await request<ReadingSessionResponse>(
+    `/books/${bookId}/sessions`,
+    {
+      method: "POST",
+      body: JSON.stringify(input),
+    }
+  );
+  return mapReadingSession(session);
+}
@@ -0,0 +1,20 @@
+import * as Network from "expo-network";
+
+type ConnectivityState = Pick<
+  Network.NetworkState,
+  "isConnected" | "isInternetReachable"
+>;
+
+export function isOnlineState(state: ConnectivityState) {
+  return Boolean(state.isConnected) && state.isInternetReachable !== false;
+}
+
+export async function isNetworkAvailable() {
+  try {
+    const state = await Network.getNetworkStateAsync();
+    return isOnlineState(state);
+  } catch (error) {
+    console.error("Erreur de detection reseau", error);
+    return true;
+  }
+}
@@ -0,0 +1,209 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Directory, File, Paths } from "expo-file-system";
+import { Platform } from "react-native";
+
+import { isLocalCover } from "./CoverService";
+
+const INDEX_KEY = "@lireo/cover-cache";
+const MAX_CACHE_BYTES = 50 * 1024 * 1024;
+const INDEX_SAVE_DELAY_MS = 2000;
+const MAX_CONCURRENT_DOWNLOADS = 3;
+// The file system API is not available on web: covers load from the network.
+const CACHE_ENABLED = Platform.OS !== "web";
+
+type CoverEntry = {
+  file: string;
+  size: number;
+  lastUsed: number;
+};
+
+type CoverIndex = Record<string, CoverEntry>;
+
+let index: CoverIndex | null = null;
+let indexLoading: Promise<CoverIndex> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+const downloads = new Map<string, Promise<string | null>>();
+const waitingDownloads: (() => void)[] = [];
+let activeDownloads = 0;
+
+function getCoverDirectory() {
+  const directory = new Directory(Paths.document, "covers");
+  if (!directory.exists) {
+    directory.create({ intermediates: true, idempotent: true });
+  }
+  return directory;
+}
+
+// Stable file name derived from the URL, so a cover is stored only once.
+function fileNameFor(url: string) {
+  let hash = 5381;
+  for (let i = 0; i < url.length; i += 1) {
+    hash = ((hash << 5) + hash + url.charCodeAt(i)) | 0;
+  }
+  const extension = url.match(/\.(png|webp|jpe?g)(\?|$)/i)?.[1] ?? "jpg";
+  return `${(hash >>> 0).toString(36)}-${url.length}.${extension}`;
+}
+
+async function loadIndex() {
+  if (index) {
+    return index;
+  }
+  if (!indexLoading) {
+    indexLoading = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(INDEX_KEY);
+        const parsed = raw ? (JSON.parse(raw) as CoverIndex) : null;
+        index = parsed && typeof parsed === "object" ? parsed : {};
+      } catch (error) {
+        console.error("Erreur de lecture du cache des couvertures", error);
+        index = {};
+      }
+      return index;
+    })();
+  }
+  return indexLoading;
+}
+
+async function saveIndex() {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  try {
+    await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(index ?? {}));
+  } catch (error) {
+    console.error("Erreur de sauvegarde du cache des couvertures", error);
+  }
+}
+
+// Reads touch lastUsed often; batching avoids a storage write per render.
+function scheduleIndexSave() {
+  if (!saveTimer) {
+    saveTimer = setTimeout(saveIndex, INDEX_SAVE_DELAY_MS);
+  }
+}
+
+function removeEntry(current: CoverIndex, url: string) {
+  const entry = current[url];
+  delete current[url];
+  try {
+    const file = new File(getCoverDirectory(), entry.file);
+    if (file.exists) {
+      file.delete();
+    }
+  } catch (error) {
+    console.error("Erreur de suppression d'une couverture", error);
+  }
+}
+
+function evictLeastRecentlyUsed(current: CoverIndex) {
+  let total = Object.values(current).reduce(
+    (sum, entry) => sum + entry.size,
+    0
+  );
+  const urls = Object.keys(current).sort(
+    (a, b) => current[a].lastUsed - current[b].lastUsed
+  );
+  for (const url of urls) {
+    if (total <= MAX_CACHE_BYTES) {
+      break;
+    }
+    total -= current[url].size;
+    removeEntry(current, url);
+  }
+}
+
+// Synchronous lookup for first render, once the index is in memory.
+export function peekCachedCover(url: string) {
+  if (!CACHE_ENABLED) {
+    return null;
+  }
+  const entry = index?.[url];
+  return entry ? new File(getCoverDirectory(), entry.file).uri : null;
+}
+
+export async function getCachedCover(url: string) {
+  const current = await loadIndex();
+  const entry = current[url];
+  if (!entry) {
+    return null;
+  }
+  const file = new File(getCoverDirectory(), entry.file);
+  if (!file.exists) {
+    delete current[url];
+    scheduleIndexSave();
+    return null;
+  }
+  entry.lastUsed = Date.now();
+  scheduleIndexSave();
+  return file.uri;
+}
+
+// A long list mounts many covers at once: only a few download together.
+function acquireDownloadSlot() {
+  if (activeDownloads < MAX_CONCURRENT_DOWNLOADS) {
+    activeDownloads += 1;
+    return Promise.resolve();
+  }
+  return new Promise<void>((resolve) => waitingDownloads.push(resolve));
+}
+
+function releaseDownloadSlot() {
+  const next = waitingDownloads.shift();
+  if (next) {
+    next();
+  } else {
+    activeDownloads -= 1;
+  }
+}
+
+async function downloadCover(url: string) {
+  const current = await loadIndex();
+  try {
+    const file = await File.downloadFileAsync(
+      url,
+      new File(getCoverDirectory(), fileNameFor(url)),
+      { idempotent: true }
+    );
+    current[url] = {
+      file: fileNameFor(url),
+      size: file.size ?? 0,
+      lastUsed: Date.now(),
+    };
+    evictLeastRecentlyUsed(current);
+    await saveIndex();
+    return current[url] ? file.uri : null;
+  } catch (error) {
+    console.error("Erreur de telechargement d'une couverture", error);
+    return null;
+  }
+}
+
+export async function cacheCover(url?: string | null) {
+  if (!url || isLocalCover(url)) {
+    return null;
+  }
+  if (!CACHE_ENABLED) {
+    return url;
+  }
+  const cached = await getCachedCover(url);
+  if (cached) {
+    return cached;
+  }
+  let download = downloads.get(url);
+  if (!download) {
+    download = acquireDownloadSlot()
+      .then(() => downloadCover(url).finally(releaseDownloadSlot))
+      .finally(() => downloads.delete(url));
+    downloads.set(url, download);
+  }
+  return download;
+}
+
+// Downloads one cover at a time to keep the list responsive.
+export async function cacheCovers(urls: (string | null | undefined)[]) {
+  const unique = Array.from(new Set(urls.filter(Boolean)));
+  for (const url of unique) {
+    await cacheCover(url);
+  }
+}
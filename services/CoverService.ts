@@ -0,0 +1,67 @@
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+
+import { getApiClient } from "./ApiClient";
+import { BookPayload } from "./BooksService";
+
+const COVER_MAX_WIDTH = 800;
+const COVER_QUALITY = 0.7;
+
+type CoverUploadResponse = {
+  url?: string;
+  coverUrl?: string;
+};
+
+type CoverUploadOptions = {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+};
+
+export function isLocalCover(cover?: string | null): cover is string {
+  return Boolean(cover) && !/^https?:\/\//.test(cover as string);
+}
+
+export async function prepareCover(uri: string, width?: number) {
+  const context = ImageManipulator.manipulate(uri);
+  if (!width || width > COVER_MAX_WIDTH) {
+    context.resize({ width: COVER_MAX_WIDTH });
+  }
+  const image = await context.renderAsync();
+  const result = await image.saveAsync({
+    compress: COVER_QUALITY,
+    format: SaveFormat.JPEG,
+  });
+  return result.uri;
+}
+
+export async function uploadCover(
+  uri: string,
+  options: CoverUploadOptions = {}
+) {
+  const body = new FormData();
+  // React Native reads the file from disk when given a { uri, name, type } part.
+  body.append("cover", {
+    uri,
+    name: `cover-${Date.now()}.jpg`,
+    type: "image/jpeg",
+  } as unknown as Blob);
+
+  const response = await getApiClient().upload<CoverUploadResponse>(
+    "/covers",
+    body,
+    options
+  );
+  const url = response.url ?? response.coverUrl;
+  if (!url) {
+    throw new Error("Le serveur n'a pas renvoye l'adresse de la couverture.");
+  }
+  options.onProgress?.(1);
+  return url;
+}
+
+// Covers picked offline stay on the device until the payload is sent.
+export async function withUploadedCover(payload: BookPayload) {
+  if (!isLocalCover(payload.cover)) {
+    return payload;
+  }
+  return { ...payload, cover: await uploadCover(payload.cover) };
+}
@@ -0,0 +1,79 @@
+export type CsvTable = {
+  headers: string[];
+  rows: string[][];
+};
+
+// Exports from French tools usually use ";" because "," is the decimal mark.
+export function detectDelimiter(text: string) {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const counts = [",", ";", "\t"].map((delimiter) => ({
+    delimiter,
+    count: firstLine.split(delimiter).length - 1,
+  }));
+  counts.sort((a, b) => b.count - a.count);
+  return counts[0].count > 0 ? counts[0].delimiter : ",";
+}
+
+// RFC 4180: quoted fields may contain delimiters, doubled quotes and line
+// breaks.
+export function parseCsv(text: string, delimiter = detectDelimiter(text)) {
+  const source = text.replace(/^\uFEFF/, "");
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i += 1) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") {
+        i += 1;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter((row) => row.some((value) => value.trim() !== ""));
+}
+
+export function parseCsvTable(text: string): CsvTable {
+  const [headers = [], ...rows] = parseCsv(text);
+  return { headers: headers.map((header) => header.trim()), rows };
+}
+
+function formatCsvField(value: string, delimiter: string) {
+  return /["\r\n]/.test(value) || value.includes(delimiter)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+export function formatCsv(table: CsvTable, delimiter = ",") {
+  return [table.headers, ...table.rows]
+    .map((row) =>
+      row.map((value) => formatCsvField(value, delimiter)).join(delimiter)
+    )
+    .join("\r\n");
+}
@@ -0,0 +1,235 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { RequestOptions, getApiClient } from "./ApiClient";
+import { isNetworkError } from "./ApiError";
+import { scopedKey } from "./OfflineStorage";
+
+export type GoalUnit = "books" | "pages";
+
+export type GoalTarget = {
+  unit: GoalUnit;
+  target: number;
+};
+
+export type ReadingGoals = {
+  year: number;
+  yearly: GoalTarget | null;
+  monthly: GoalTarget | null;
+};
+
+export type GoalProgress = {
+  books: number;
+  pages: number;
+  monthBooks: number;
+  monthPages: number;
+};
+
+export type GoalsSnapshot = {
+  goals: ReadingGoals;
+  progress: GoalProgress | null;
+  savedAt: number;
+  pending: boolean;
+};
+
+export type GoalPace = {
+  expected: number;
+  projected: number;
+  delta: number;
+};
+
+type GoalsResponse = {
+  year?: number;
+  yearly?: GoalTarget | null;
+  monthly?: GoalTarget | null;
+  progress?: Partial<GoalProgress> | null;
+};
+
+function goalsCacheKey(year: number) {
+  return scopedKey(`goals/${year}`);
+}
+
+function emptyGoals(year: number): ReadingGoals {
+  return { year, yearly: null, monthly: null };
+}
+
+function mapGoalTarget(target?: GoalTarget | null): GoalTarget | null {
+  if (!target || !(target.target > 0)) {
+    return null;
+  }
+  return {
+    unit: target.unit === "pages" ? "pages" : "books",
+    target: target.target,
+  };
+}
+
+function mapGoalsResponse(
+  year: number,
+  response: GoalsResponse
+): GoalsSnapshot {
+  const progress = response.progress;
+  return {
+    goals: {
+      year: response.year ?? year,
+      yearly: mapGoalTarget(response.yearly),
+      monthly: mapGoalTarget(response.monthly),
+    },
+    progress: progress
+      ? {
+          books: progress.books ?? 0,
+          pages: progress.pages ?? 0,
+          monthBooks: progress.monthBooks ?? 0,
+          monthPages: progress.monthPages ?? 0,
+        }
+      : null,
+    savedAt: Date.now(),
+    pending: false,
+  };
+}
+
+export async function loadGoalsCache(
+  year: number
+): Promise<GoalsSnapshot | null> {
+  try {
+    const raw = await AsyncStorage.getItem(goalsCacheKey(year));
+    if (!raw) {
+      return null;
+    }
+    const parsed = JSON.parse(raw) as Partial<GoalsSnapshot>;
+    if (!parsed || !parsed.goals) {
+      return null;
+    }
+    return {
+      goals: parsed.goals,
+      progress: parsed.progress ?? null,
+      savedAt: typeof parsed.savedAt === "number" ? parsed.savedAt : Date.now(),
+      pending: Boolean(parsed.pending),
+    };
+  } catch (error) {
+    console.error("Erreur de lecture du cache des objectifs", error);
+    return null;
+  }
+}
+
+async function saveGoalsCache(snapshot: GoalsSnapshot) {
+  try {
+    await AsyncStorage.setItem(
+      goalsCacheKey(snapshot.goals.year),
+      JSON.stringify(snapshot)
+    );
+  } catch (error) {
+    console.error("Erreur de sauvegarde du cache des objectifs", error);
+  }
+  return snapshot;
+}
+
+async function putGoals(goals: ReadingGoals, options?: RequestOptions) {
+  const response = await getApiClient().request<GoalsResponse>(
+    `/goals/${goals.year}`,
+    {
+      ...options,
+      method: "PUT",
+      body: JSON.stringify({ yearly: goals.yearly, monthly: goals.monthly }),
+    }
+  );
+  return mapGoalsResponse(goals.year, response);
+}
+
+// Goals edited offline are kept locally and pushed on the next load.
+export async function getGoals(
+  year: number,
+  options?: RequestOptions
+): Promise<GoalsSnapshot & { offline: boolean }> {
+  const cached = await loadGoalsCache(year);
+  try {
+    const snapshot = cached?.pending
+      ? await putGoals(cached.goals, options)
+      : mapGoalsResponse(
+          year,
+          await getApiClient().request<GoalsResponse>(`/goals/${year}`, options)
+        );
+    await saveGoalsCache(snapshot);
+    return { ...snapshot, offline: false };
+  } catch (error) {
+    if (!isNetworkError(error)) {
+      throw error;
+    }
+    return {
+      ...(cached ?? {
+        goals: emptyGoals(year),
+        progress: null,
+        savedAt: Date.now(),
+        pending: false,
+      }),
+      offline: true,
+    };
+  }
+}
+
+export async function saveGoals(goals: ReadingGoals) {
+  const previous = await loadGoalsCache(goals.year);
+  const pending: GoalsSnapshot = {
+    goals,
+    progress: previous?.progress ?? null,
+    savedAt: Date.now(),
+    pending: true,
+  };
+  await saveGoalsCache(pending);
+  try {
+    const snapshot = await putGoals(goals);
+    return saveGoalsCache(snapshot);
+  } catch (error) {
+    if (isNetworkError(error)) {
+      return pending;
+    }
+    if (previous) {
+      await saveGoalsCache(previous);
+    } else {
+      await AsyncStorage.removeItem(goalsCacheKey(goals.year));
+    }
+    throw error;
+  }
+}
+
+export function getGoalValue(
+  progress: GoalProgress | null,
+  goal: GoalTarget,
+  scope: "yearly" | "monthly"
+) {
+  if (!progress) {
+    return 0;
+  }
+  if (scope === "monthly") {
+    return goal.unit === "pages" ? progress.monthPages : progress.monthBooks;
+  }
+  return goal.unit === "pages" ? progress.pages : progress.books;
+}
+
+// Compares the current count with a steady pace over the period.
+export function getGoalPace(
+  goal: GoalTarget,
+  current: number,
+  scope: "yearly" | "monthly",
+  now = new Date()
+): GoalPace {
+  const start =
+    scope === "yearly"
+      ? new Date(now.getFullYear(), 0, 1)
+      : new Date(now.getFullYear(), now.getMonth(), 1);
+  const end =
+    scope === "yearly"
+      ? new Date(now.getFullYear() + 1, 0, 1)
+      : new Date(now.getFullYear(), now.getMonth() + 1, 1);
+  const elapsed = Math.min(
+    Math.max(
+      (now.getTime() - start.getTime()) / (end.getTime() - start.getTime()),
+      0
+    ),
+    1
+  );
+  const expected = goal.target * elapsed;
+  return {
+    expected,
+    projected: elapsed > 0 ? Math.round(current / elapsed) : current,
+    delta: Math.floor(current - expected),
+  };
+}
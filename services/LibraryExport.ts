@@ -0,0 +1,297 @@
+import { Directory, File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+
+import { isNetworkError } from "./ApiError";
+import {
+  Book,
+  Note,
+  getAllBooks,
+  getAllNotes,
+  getBookThemes,
+  getReadingStatus,
+} from "./BooksService";
+import { formatCsv } from "./Csv";
+import {
+  isBooksCacheComplete,
+  loadBooksCache,
+  loadNotesCache,
+} from "./OfflineStorage";
+import { formatPageRange, getNoteKindLabel } from "./ReadingNotes";
+import { formatStatusDate, getStatusLabel } from "./ReadingStatus";
+
+export type ExportFormat = "csv" | "json" | "markdown";
+
+export type ExportData = {
+  books: Book[];
+  notes: Note[];
+  offline: boolean;
+  partial: boolean;
+};
+
+export type LibraryExportFile = {
+  format: "lireo-library";
+  version: typeof EXPORT_VERSION;
+  exportedAt: string;
+  books: (Book & { notes: Note[] })[];
+};
+
+// Bump when the JSON shape changes, so future imports can migrate old files.
+export const EXPORT_VERSION = 1;
+
+export const EXPORT_FORMATS: {
+  value: ExportFormat;
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+  uti: string;
+}[] = [
+  {
+    value: "csv",
+    label: "CSV",
+    description: "Un livre par ligne, pour un tableur ou un autre service.",
+    extension: "csv",
+    mimeType: "text/csv",
+    uti: "public.comma-separated-values-text",
+  },
+  {
+    value: "json",
+    label: "JSON",
+    description: "Sauvegarde complete des livres et des notes.",
+    extension: "json",
+    mimeType: "application/json",
+    uti: "public.json",
+  },
+  {
+    value: "markdown",
+    label: "Markdown",
+    description: "Journal de lecture avec une section par livre.",
+    extension: "md",
+    mimeType: "text/markdown",
+    uti: "net.daringfireball.markdown",
+  },
+];
+
+const CSV_HEADERS = [
+  "Titre",
+  "Auteur",
+  "Editeur",
+  "Annee",
+  "ISBN",
+  "Note",
+  "Pages",
+  "Page actuelle",
+  "Statut",
+  "Commence le",
+  "Date de lecture",
+  "Favori",
+  "Themes",
+  "Notes",
+];
+
+function toDay(value?: string | null) {
+  return value ? value.slice(0, 10) : "";
+}
+
+function groupNotes(notes: Note[]) {
+  const byBook = new Map<string, Note[]>();
+  notes.forEach((note) => {
+    byBook.set(note.bookId, [...(byBook.get(note.bookId) ?? []), note]);
+  });
+  byBook.forEach((bookNotes) =>
+    bookNotes.sort((a, b) => a.dateISO.localeCompare(b.dateISO))
+  );
+  return byBook;
+}
+
+function sortBooks(books: Book[]) {
+  return [...books].sort(
+    (a, b) =>
+      a.author.localeCompare(b.author, "fr") ||
+      a.name.localeCompare(b.name, "fr")
+  );
+}
+
+// The import detects this file as Babelio and reads every column back except
+// the start date, current page, favorite flag and notes.
+export function toCsvExport({ books, notes }: ExportData) {
+  const notesByBook = groupNotes(notes);
+  const rows = sortBooks(books).map((book) => [
+    book.name,
+    book.author,
+    book.editor ?? "",
+    book.year ? String(book.year) : "",
+    book.isbn ?? "",
+    book.rating ? String(book.rating) : "",
+    book.totalPages ? String(book.totalPages) : "",
+    book.currentPage ? String(book.currentPage) : "",
+    getStatusLabel(getReadingStatus(book)),
+    toDay(book.startedAt),
+    toDay(book.finishedAt),
+    book.favorite ? "oui" : "non",
+    getBookThemes(book).join(", "),
+    (notesByBook.get(book.id) ?? []).map((note) => note.content).join("\n\n"),
+  ]);
+  // The BOM lets spreadsheet apps detect UTF-8.
+  return `\uFEFF${formatCsv({ headers: CSV_HEADERS, rows })}`;
+}
+
+export function toJsonExport({ books, notes }: ExportData, now = new Date()) {
+  const notesByBook = groupNotes(notes);
+  const file: LibraryExportFile = {
+    format: "lireo-library",
+    version: EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    books: sortBooks(books).map((book) => ({
+      ...book,
+      notes: (notesByBook.get(book.id) ?? []).map(
+        ({ bookName, ...note }) => note
+      ),
+    })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+function formatNoteMarkdown(note: Note) {
+  const meta = [
+    getNoteKindLabel(note.kind),
+    formatPageRange(note),
+    new Date(note.dateISO).toLocaleDateString("fr-FR"),
+    note.tags?.length ? note.tags.map((tag) => `#${tag}`).join(" ") : null,
+  ].filter(Boolean);
+  const content =
+    note.kind === "quote"
+      ? note.content
+          .split("\n")
+          .map((line) => `> ${line}`)
+          .join("\n")
+      : note.content;
+  return `${content}\n\n*${meta.join(" · ")}*`;
+}
+
+export function toMarkdownExport(
+  { books, notes }: ExportData,
+  now = new Date()
+) {
+  const notesByBook = groupNotes(notes);
+  const sections = sortBooks(books).map((book) => {
+    const status = getReadingStatus(book);
+    const details = [
+      book.author,
+      book.editor,
+      book.year ? String(book.year) : null,
+      getStatusLabel(status),
+      book.rating
+        ? `${"★".repeat(book.rating)}${"☆".repeat(5 - book.rating)}`
+        : null,
+    ].filter(Boolean);
+    const lines = [`## ${book.name}`, "", `*${details.join(" · ")}*`];
+    const finishedLabel = status === "abandoned" ? "Abandonne" : "Termine";
+    const dates = [
+      book.startedAt ? `Commence le ${formatStatusDate(book.startedAt)}` : null,
+      book.finishedAt
+        ? `${finishedLabel} le ${formatStatusDate(book.finishedAt)}`
+        : null,
+    ].filter(Boolean);
+    if (dates.length) {
+      lines.push("", dates.join(" · "));
+    }
+    const themes = getBookThemes(book);
+    if (themes.length) {
+      lines.push("", `Themes : ${themes.join(", ")}`);
+    }
+    const bookNotes = notesByBook.get(book.id) ?? [];
+    if (bookNotes.length) {
+      lines.push(
+        "",
+        "### Notes",
+        "",
+        bookNotes.map(formatNoteMarkdown).join("\n\n---\n\n")
+      );
+    }
+    return lines.join("\n");
+  });
+  return (
+    [
+      "# Journal de lecture",
+      "",
+      `Exporte le ${now.toLocaleDateString("fr-FR")} · ${books.length} livre(s), ${notes.length} note(s)`,
+      ...sections.map((section) => `\n${section}`),
+    ].join("\n") + "\n"
+  );
+}
+
+export function serializeExport(format: ExportFormat, data: ExportData) {
+  if (format === "csv") {
+    return toCsvExport(data);
+  }
+  if (format === "json") {
+    return toJsonExport(data);
+  }
+  return toMarkdownExport(data);
+}
+
+export async function loadExportData(
+  signal?: AbortSignal
+): Promise<ExportData> {
+  try {
+    const [books, notes] = await Promise.all([
+      getAllBooks({ signal }),
+      getAllNotes({ signal }),
+    ]);
+    return { books, notes, offline: false, partial: false };
+  } catch (error) {
+    if (!isNetworkError(error)) {
+      throw error;
+    }
+    const [books, notes] = await Promise.all([
+      loadBooksCache(),
+      loadNotesCache(),
+    ]);
+    return {
+      books: books?.books ?? [],
+      notes: notes?.notes ?? [],
+      offline: true,
+      partial: !books || !isBooksCacheComplete(books),
+    };
+  }
+}
+
+function getExportOption(format: ExportFormat) {
+  return (
+    EXPORT_FORMATS.find((option) => option.value === format) ??
+    EXPORT_FORMATS[0]
+  );
+}
+
+export function getExportFileName(format: ExportFormat, now = new Date()) {
+  return `lireo-${toDay(now.toISOString())}.${getExportOption(format).extension}`;
+}
+
+export async function shareExport(format: ExportFormat, data: ExportData) {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Le partage n'est pas disponible sur cet appareil.");
+  }
+  const option = getExportOption(format);
+  const file = new File(Paths.cache, getExportFileName(format));
+  if (file.exists) {
+    file.delete();
+  }
+  file.create();
+  file.write(serializeExport(format, data));
+  await Sharing.shareAsync(file.uri, {
+    mimeType: option.mimeType,
+    UTI: option.uti,
+    dialogTitle: "Exporter la bibliotheque",
+  });
+}
+
+// Lets the user pick a folder; returns the written file name.
+export async function saveExport(format: ExportFormat, data: ExportData) {
+  const option = getExportOption(format);
+  const name = getExportFileName(format);
+  const directory = await Directory.pickDirectoryAsync();
+  const file = directory.createFile(name, option.mimeType);
+  file.write(serializeExport(format, data));
+  return name;
+}
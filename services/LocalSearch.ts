@@ -0,0 +1,204 @@
+import {
+  Book,
+  GetBooksParams,
+  SortField,
+  getBookThemes,
+  getReadingStatus,
+} from "./BooksService";
+
+const STOP_WORDS = new Set([
+  "a",
+  "au",
+  "aux",
+  "d",
+  "de",
+  "des",
+  "du",
+  "et",
+  "l",
+  "la",
+  "le",
+  "les",
+  "un",
+  "une",
+]);
+
+type IndexedBook = {
+  book: Book;
+  tokens: string[];
+  themes: string[];
+};
+
+export type BookSearchIndex = {
+  size: number;
+  query: (params?: GetBooksParams) => Book[];
+};
+
+export function normalizeText(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/œ/g, "oe")
+    .replace(/æ/g, "ae")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function tokenize(value: string) {
+  const normalized = normalizeText(value);
+  return normalized ? normalized.split(" ") : [];
+}
+
+function allowedTypos(token: string) {
+  if (token.length <= 3) {
+    return 0;
+  }
+  return token.length <= 6 ? 1 : 2;
+}
+
+// Optimal string alignment distance: insertions, deletions, substitutions
+// and transpositions of two adjacent letters all cost 1.
+function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i += 1) {
+    rows.push([i]);
+  }
+  for (let j = 1; j <= b.length; j += 1) {
+    rows[0][j] = j;
+  }
+  for (let i = 1; i <= a.length; i += 1) {
+    let rowMin = Infinity;
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost
+      );
+      if (
+        i > 1 &&
+        j > 1 &&
+        a[i - 1] === b[j - 2] &&
+        a[i - 2] === b[j - 1]
+      ) {
+        value = Math.min(value, rows[i - 2][j - 2] + 1);
+      }
+      rows[i][j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+function tokenMatches(queryToken: string, candidate: string) {
+  if (candidate.includes(queryToken)) {
+    return true;
+  }
+  const max = allowedTypos(queryToken);
+  if (max === 0) {
+    return false;
+  }
+  // Compare with the candidate prefix too so partially typed words match.
+  const prefix = candidate.slice(0, queryToken.length);
+  return (
+    editDistance(queryToken, candidate, max) <= max ||
+    editDistance(queryToken, prefix, max) <= max
+  );
+}
+
+export function matchesText(queryTokens: string[], tokens: string[]) {
+  const significant = queryTokens.filter((token) => !STOP_WORDS.has(token));
+  const required = significant.length > 0 ? significant : queryTokens;
+  return required.every((queryToken) =>
+    tokens.some((candidate) => tokenMatches(queryToken, candidate))
+  );
+}
+
+function sortValue(book: Book, field: SortField) {
+  switch (field) {
+    case "title":
+      return book.name;
+    case "author":
+      return book.author;
+    case "theme":
+      return getBookThemes(book)[0] ?? null;
+    case "year":
+      return book.year ?? null;
+    case "rating":
+      return book.rating ?? null;
+  }
+}
+
+function compareBooks(a: Book, b: Book, field: SortField) {
+  const left = sortValue(a, field);
+  const right = sortValue(b, field);
+  if (typeof left === "number" && typeof right === "number") {
+    return left - right;
+  }
+  return String(left).localeCompare(String(right), "fr", {
+    sensitivity: "base",
+    numeric: true,
+  });
+}
+
+export function createBookSearchIndex(books: Book[]): BookSearchIndex {
+  const entries: IndexedBook[] = books.map((book) => ({
+    book,
+    tokens: tokenize(`${book.name} ${book.author}`),
+    themes: getBookThemes(book).map(normalizeText),
+  }));
+
+  const query = (params: GetBooksParams = {}) => {
+    const queryTokens = tokenize(params.query ?? "");
+    const theme = params.theme ? normalizeText(params.theme) : null;
+    const field = params.sort ?? "title";
+    const direction = params.order === "desc" ? -1 : 1;
+
+    const results = entries.filter((entry) => {
+      if (
+        typeof params.read === "boolean" &&
+        Boolean(entry.book.read) !== params.read
+      ) {
+        return false;
+      }
+      if (params.status && getReadingStatus(entry.book) !== params.status) {
+        return false;
+      }
+      if (
+        typeof params.favorite === "boolean" &&
+        Boolean(entry.book.favorite) !== params.favorite
+      ) {
+        return false;
+      }
+      if (theme && !entry.themes.includes(theme)) {
+        return false;
+      }
+      return queryTokens.length === 0 || matchesText(queryTokens, entry.tokens);
+    });
+
+    return results
+      .map((entry) => entry.book)
+      .sort((a, b) => {
+        const leftMissing = sortValue(a, field) === null;
+        const rightMissing = sortValue(b, field) === null;
+        // Books without a value stay at the end whatever the order.
+        if (leftMissing || rightMissing) {
+          return Number(leftMissing) - Number(rightMissing);
+        }
+        return direction * compareBooks(a, b, field);
+      });
+  };
+
+  return { size: entries.length, query };
+}
+
+export function queryBooks(books: Book[], params?: GetBooksParams) {
+  return createBookSearchIndex(books).query(params);
+}
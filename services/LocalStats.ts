@@ -0,0 +1,210 @@
+import {
+  Book,
+  BooksStats,
+  ReadingStatus,
+  getBookThemes,
+  getReadingStatus,
+} from "./BooksService";
+import { isBooksCacheComplete, loadBooksCache } from "./OfflineStorage";
+import {
+  RankedEntry,
+  StatsBucket,
+  StatsPeriod,
+  StatsTimeline,
+} from "./StatsService";
+
+export type LocalStatsSource = {
+  savedAt: number;
+  complete: boolean;
+};
+
+type ComparedField = "totalBooks" | "readCount" | "favoritesCount";
+
+export type StatsMismatch = {
+  field: ComparedField;
+  label: string;
+  server: number;
+  local: number;
+};
+
+const COMPARED_FIELDS: { field: ComparedField; label: string }[] = [
+  { field: "totalBooks", label: "livres" },
+  { field: "readCount", label: "lus" },
+  { field: "favoritesCount", label: "favoris" },
+];
+
+function pad(value: number) {
+  return String(value).padStart(2, "0");
+}
+
+function monthKey(date: Date) {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+}
+
+// ISO 8601 week, so keys match the server buckets.
+function weekKey(date: Date) {
+  const day = new Date(
+    Date.UTC(date.getFullYear(), date.getMonth(), date.getDate())
+  );
+  const weekday = day.getUTCDay() || 7;
+  day.setUTCDate(day.getUTCDate() + 4 - weekday);
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${day.getUTCFullYear()}-W${pad(week)}`;
+}
+
+function dayKey(date: Date) {
+  return `${monthKey(date)}-${pad(date.getDate())}`;
+}
+
+function periodStart(period: StatsPeriod, now: Date) {
+  if (period === "month") {
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  }
+  if (period === "year") {
+    return new Date(now.getFullYear(), 0, 1);
+  }
+  return null;
+}
+
+function countBy<T>(items: T[], keyOf: (item: T) => string | null) {
+  const counts = new Map<string, number>();
+  items.forEach((item) => {
+    const key = keyOf(item);
+    if (key) {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  });
+  return counts;
+}
+
+function toSortedBuckets(counts: Map<string, number>): StatsBucket[] {
+  return Array.from(counts.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => ({ key, value }));
+}
+
+function toRanking(counts: Map<string, number>): RankedEntry[] {
+  return Array.from(counts.entries())
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name, "fr"))
+    .slice(0, 10);
+}
+
+function finishedDate(book: Book) {
+  if (getReadingStatus(book) !== "read" || !book.finishedAt) {
+    return null;
+  }
+  const date = new Date(book.finishedAt);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function computeBooksStats(books: Book[]): BooksStats {
+  const statusCounts: Record<ReadingStatus, number> = {
+    "want-to-read": 0,
+    reading: 0,
+    read: 0,
+    abandoned: 0,
+  };
+  books.forEach((book) => {
+    statusCounts[getReadingStatus(book)] += 1;
+  });
+  const ratings = books
+    .map((book) => book.rating ?? 0)
+    .filter((rating) => rating > 0);
+
+  return {
+    totalBooks: books.length,
+    readCount: statusCounts.read,
+    unreadCount: books.length - statusCounts.read,
+    statusCounts,
+    favoritesCount: books.filter((book) => book.favorite).length,
+    averageRating: ratings.length
+      ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length
+      : null,
+  };
+}
+
+// Sessions are not cached, so pages are those of the books finished in
+// each week.
+export function computeStatsTimeline(
+  books: Book[],
+  period: StatsPeriod,
+  now = new Date()
+): StatsTimeline {
+  const start = periodStart(period, now);
+  const finished = books.filter((book) => {
+    const date = finishedDate(book);
+    return date !== null && (!start || date >= start);
+  });
+  const inPeriod = start ? finished : books;
+
+  const pagesRead = new Map<string, number>();
+  finished.forEach((book) => {
+    const key = weekKey(finishedDate(book) as Date);
+    pagesRead.set(key, (pagesRead.get(key) ?? 0) + (book.totalPages ?? 0));
+  });
+
+  const themes = new Map<string, number>();
+  inPeriod.forEach((book) => {
+    getBookThemes(book).forEach((theme) => {
+      themes.set(theme, (themes.get(theme) ?? 0) + 1);
+    });
+  });
+
+  const ratings = countBy(inPeriod, (book) =>
+    book.rating && book.rating > 0 ? String(book.rating) : null
+  );
+
+  return {
+    period,
+    booksFinished: toSortedBuckets(
+      countBy(finished, (book) => {
+        const date = finishedDate(book) as Date;
+        return period === "month" ? dayKey(date) : monthKey(date);
+      })
+    ),
+    pagesRead: toSortedBuckets(pagesRead),
+    ratings: [1, 2, 3, 4, 5].map((value) => ({
+      key: String(value),
+      value: ratings.get(String(value)) ?? 0,
+    })),
+    publicationYears: toSortedBuckets(
+      countBy(inPeriod, (book) =>
+        book.year ? `${Math.floor(book.year / 10) * 10}s` : null
+      )
+    ),
+    topAuthors: toRanking(
+      countBy(inPeriod, (book) => book.author?.trim() || null)
+    ),
+    topThemes: toRanking(themes),
+  };
+}
+
+export async function loadLocalBooks(): Promise<
+  (LocalStatsSource & { books: Book[] }) | null
+> {
+  const cached = await loadBooksCache();
+  if (!cached) {
+    return null;
+  }
+  return {
+    books: cached.books,
+    savedAt: cached.savedAt,
+    complete: isBooksCacheComplete(cached),
+  };
+}
+
+export function compareStats(
+  server: BooksStats,
+  local: BooksStats
+): StatsMismatch[] {
+  return COMPARED_FIELDS.filter(
+    ({ field }) => server[field] !== local[field]
+  ).map(({ field, label }) => ({
+    field,
+    label,
+    server: server[field],
+    local: local[field],
+  }));
+}
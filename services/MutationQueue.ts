@@ -0,0 +1,509 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { ConflictError, isRetryableError } from "./ApiError";
+import { MERGE_FIELDS, mergeBookChanges } from "./BookConflicts";
+import {
+  Book,
+  BookConflictError,
+  BookPayload,
+  Note,
+  NoteInput,
+  ReadingSessionInput,
+  addBookNote,
+  addReadingSession,
+  createBook,
+  deleteBook,
+  deleteBookNote,
+  updateBook,
+  updateBookNote,
+} from "./BooksService";
+import { isLocalCover, withUploadedCover } from "./CoverService";
+import { loadBooksCache, saveBooksCache, scopedKey } from "./OfflineStorage";
+import { toNoteInput } from "./ReadingNotes";
+
+const MUTATION_QUEUE_KEY = "mutation-queue";
+const LOCAL_ID_PREFIX = "local-";
+
+export type MutationStatus = "pending" | "syncing" | "failed";
+
+type MutationData =
+  | { type: "create"; bookId: string; payload: BookPayload }
+  | { type: "update"; bookId: string; payload: BookPayload; base?: Book }
+  | { type: "delete"; bookId: string }
+  | ({ type: "note"; bookId: string } & NoteInput)
+  | ({ type: "note-update"; bookId: string; noteId: string } & NoteInput)
+  | { type: "note-delete"; bookId: string; noteId: string }
+  | ({ type: "session"; bookId: string } & ReadingSessionInput);
+
+export type QueuedMutation = MutationData & {
+  id: string;
+  createdAt: number;
+  status: MutationStatus;
+  attempts: number;
+  lastError?: string;
+};
+
+export type ReplayResult = {
+  synced: number;
+  remaining: number;
+  createdIds: Record<string, string>;
+};
+
+type QueueListener = (queue: QueuedMutation[]) => void;
+
+let queue: QueuedMutation[] | null = null;
+let queueKey: string | null = null;
+let replaying: Promise<ReplayResult> | null = null;
+let pendingWrite: Promise<unknown> = Promise.resolve();
+const listeners = new Set<QueueListener>();
+
+function createLocalId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isLocalBookId(id: string) {
+  return id.startsWith(LOCAL_ID_PREFIX);
+}
+
+// Queue and cache updates read then rewrite the whole list: running them one
+// at a time keeps concurrent callers from overwriting each other.
+function withQueueLock<T>(task: () => Promise<T>): Promise<T> {
+  const result = pendingWrite.then(task);
+  pendingWrite = result.catch(() => undefined);
+  return result;
+}
+
+async function loadQueue(): Promise<QueuedMutation[]> {
+  const key = scopedKey(MUTATION_QUEUE_KEY);
+  if (queue && queueKey === key) {
+    return queue;
+  }
+  queueKey = key;
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    const parsed = raw ? (JSON.parse(raw) as QueuedMutation[]) : [];
+    // A replay interrupted by the app being killed must be retried.
+    queue = Array.isArray(parsed)
+      ? parsed.map((item) =>
+          item.status === "syncing" ? { ...item, status: "pending" } : item
+        )
+      : [];
+  } catch (error) {
+    console.error("Erreur de lecture de la file de synchronisation", error);
+    queue = [];
+  }
+  return queue;
+}
+
+async function saveQueue(next: QueuedMutation[]) {
+  queue = next;
+  listeners.forEach((listener) => listener(next));
+  try {
+    await AsyncStorage.setItem(
+      queueKey ?? scopedKey(MUTATION_QUEUE_KEY),
+      JSON.stringify(next)
+    );
+  } catch (error) {
+    console.error("Erreur de sauvegarde de la file de synchronisation", error);
+  }
+}
+
+export async function getMutationQueue() {
+  return loadQueue();
+}
+
+export async function getPendingCount() {
+  const items = await loadQueue();
+  return items.length;
+}
+
+export function subscribeToMutationQueue(listener: QueueListener) {
+  listeners.add(listener);
+  loadQueue().then((items) => {
+    if (listeners.has(listener)) {
+      listener(items);
+    }
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getBookSyncStatus(
+  items: QueuedMutation[],
+  bookId: string
+): MutationStatus | null {
+  const related = items.filter((item) => item.bookId === bookId);
+  if (related.length === 0) {
+    return null;
+  }
+  if (related.some((item) => item.status === "failed")) {
+    return "failed";
+  }
+  if (related.some((item) => item.status === "syncing")) {
+    return "syncing";
+  }
+  return "pending";
+}
+
+function applyMutation(books: Book[], mutation: MutationData): Book[] {
+  switch (mutation.type) {
+    case "create":
+      return [...books, { id: mutation.bookId, ...mutation.payload }];
+    case "update":
+      return books.map((book) =>
+        book.id === mutation.bookId ? { ...book, ...mutation.payload } : book
+      );
+    case "delete":
+      return books.filter((book) => book.id !== mutation.bookId);
+    case "note":
+    case "note-update":
+    case "note-delete":
+    case "session":
+      return books;
+  }
+}
+
+export function applyPendingMutations(
+  books: Book[],
+  items: QueuedMutation[] = queue ?? []
+) {
+  return items.reduce(applyMutation, books);
+}
+
+async function applyToCache(mutation: MutationData) {
+  const cached = await loadBooksCache();
+  const next = applyMutation(cached?.books ?? [], mutation);
+  await saveBooksCache(next);
+}
+
+async function appendMutation(data: MutationData) {
+  const items = await loadQueue();
+  const mutation = {
+    ...data,
+    id: createLocalId(),
+    createdAt: Date.now(),
+    status: "pending",
+    attempts: 0,
+  } as QueuedMutation;
+  await saveQueue([...items, mutation]);
+  await applyToCache(data);
+  return mutation;
+}
+
+function enqueue(data: MutationData) {
+  return withQueueLock(() => appendMutation(data));
+}
+
+export async function queueCreateBook(payload: BookPayload) {
+  const bookId = `${LOCAL_ID_PREFIX}${createLocalId()}`;
+  return enqueue({ type: "create", bookId, payload });
+}
+
+export async function queueUpdateBook(
+  bookId: string,
+  payload: BookPayload,
+  base?: Book
+) {
+  return withQueueLock(async () => {
+    const items = await loadQueue();
+    const pendingCreate = items.find(
+      (item) =>
+        item.type === "create" &&
+        item.bookId === bookId &&
+        item.status !== "syncing"
+    );
+    if (pendingCreate && pendingCreate.type === "create") {
+      // Fold edits of a book that never reached the server into its creation.
+      const merged = {
+        ...pendingCreate,
+        payload: { ...pendingCreate.payload, ...payload },
+      };
+      await saveQueue(
+        items.map((item) => (item.id === pendingCreate.id ? merged : item))
+      );
+      await applyToCache({ type: "update", bookId, payload });
+      return merged;
+    }
+    return appendMutation({ type: "update", bookId, payload, base });
+  });
+}
+
+export async function queueDeleteBook(bookId: string) {
+  return withQueueLock(async () => {
+    const items = await loadQueue();
+    if (
+      isLocalBookId(bookId) &&
+      items.every((item) => item.bookId !== bookId || item.status !== "syncing")
+    ) {
+      // Nothing to delete remotely: drop every mutation of the local book.
+      await saveQueue(items.filter((item) => item.bookId !== bookId));
+      await applyToCache({ type: "delete", bookId });
+      return null;
+    }
+    return appendMutation({ type: "delete", bookId });
+  });
+}
+
+export async function queueNote(bookId: string, input: NoteInput) {
+  return enqueue({ type: "note", bookId, ...input });
+}
+
+// Notes created offline are identified by the id of their queued mutation.
+export async function isQueuedNote(noteId: string) {
+  const items = await loadQueue();
+  return items.some((item) => item.type === "note" && item.id === noteId);
+}
+
+function isNoteMutation(item: QueuedMutation, noteId: string) {
+  return (
+    (item.type === "note" && item.id === noteId) ||
+    ((item.type === "note-update" || item.type === "note-delete") &&
+      item.noteId === noteId)
+  );
+}
+
+export async function queueNoteUpdate(
+  bookId: string,
+  noteId: string,
+  input: NoteInput
+) {
+  return withQueueLock(async () => {
+    const items = await loadQueue();
+    const pending = items.find(
+      (item) =>
+        isNoteMutation(item, noteId) &&
+        item.type !== "note-delete" &&
+        item.status !== "syncing"
+    );
+    if (
+      pending &&
+      (pending.type === "note" || pending.type === "note-update")
+    ) {
+      const merged = { ...pending, ...input };
+      await saveQueue(
+        items.map((item) => (item.id === pending.id ? merged : item))
+      );
+      return merged;
+    }
+    return appendMutation({ type: "note-update", bookId, noteId, ...input });
+  });
+}
+
+export async function queueNoteDelete(bookId: string, noteId: string) {
+  return withQueueLock(async () => {
+    const items = await loadQueue();
+    const related = items.filter(
+      (item) => isNoteMutation(item, noteId) && item.status !== "syncing"
+    );
+    await saveQueue(items.filter((item) => !related.includes(item)));
+    if (related.some((item) => item.type === "note")) {
+      // The note never reached the server: forgetting it is enough.
+      return null;
+    }
+    return appendMutation({ type: "note-delete", bookId, noteId });
+  });
+}
+
+export async function queueReadingSession(
+  bookId: string,
+  input: ReadingSessionInput
+) {
+  return enqueue({ type: "session", bookId, ...input });
+}
+
+// A book created offline has no server copy yet: it lives in the books cache
+// and its notes only exist as queued mutations.
+export async function loadLocalBook(bookId: string) {
+  const [cached, items] = await Promise.all([loadBooksCache(), loadQueue()]);
+  const book = cached?.books.find((item) => item.id === bookId);
+  if (!book) {
+    return null;
+  }
+  const notes: Note[] = items
+    .filter((item) => item.type === "note" && item.bookId === bookId)
+    .map((item) => ({
+      ...toNoteInput(item as NoteInput),
+      id: item.id,
+      bookId,
+      dateISO: new Date(item.createdAt).toISOString(),
+    }))
+    .reverse();
+  return { book, notes };
+}
+
+export async function discardMutation(id: string) {
+  return withQueueLock(async () => {
+    const items = await loadQueue();
+    await saveQueue(items.filter((item) => item.id !== id));
+  });
+}
+
+async function updateMutation(id: string, changes: Partial<QueuedMutation>) {
+  return withQueueLock(async () => {
+    const items = await loadQueue();
+    await saveQueue(
+      items.map((item) =>
+        item.id === id ? ({ ...item, ...changes } as QueuedMutation) : item
+      )
+    );
+  });
+}
+
+async function remapBookId(localId: string, created: Book) {
+  return withQueueLock(async () => {
+    const items = await loadQueue();
+    await saveQueue(
+      items.map((item) =>
+        item.bookId === localId ? { ...item, bookId: created.id } : item
+      )
+    );
+    const cached = await loadBooksCache();
+    if (cached) {
+      await saveBooksCache(
+        cached.books.map((book) => (book.id === localId ? created : book))
+      );
+    }
+  });
+}
+
+// Lets other services rewrite the cached books without racing the queue.
+export async function updateCachedBooks(transform: (books: Book[]) => Book[]) {
+  return withQueueLock(async () => {
+    const cached = await loadBooksCache();
+    if (cached) {
+      await saveBooksCache(transform(cached.books));
+    }
+  });
+}
+
+async function sendUpdate(bookId: string, payload: BookPayload, base?: Book) {
+  try {
+    await updateBook(bookId, payload, base);
+  } catch (error) {
+    if (!(error instanceof BookConflictError) || !base) {
+      throw error;
+    }
+    const merged = mergeBookChanges(base, payload, error.remote);
+    if (merged.conflicts.length > 0) {
+      const labels = MERGE_FIELDS.filter(({ field }) =>
+        merged.conflicts.includes(field)
+      ).map(({ label }) => label.toLowerCase());
+      throw new ConflictError(
+        `Conflit de modification : ${labels.join(", ")}.`
+      );
+    }
+    await updateBook(bookId, merged.payload, error.remote);
+  }
+}
+
+// Uploads a cover picked offline once, so a later failure does not resend it.
+async function resolveCover(
+  mutation: QueuedMutation & { payload: BookPayload }
+) {
+  if (!isLocalCover(mutation.payload.cover)) {
+    return mutation.payload;
+  }
+  const payload = await withUploadedCover(mutation.payload);
+  await updateMutation(mutation.id, { payload } as Partial<QueuedMutation>);
+  return payload;
+}
+
+async function sendMutation(mutation: QueuedMutation) {
+  switch (mutation.type) {
+    case "create": {
+      const created = await createBook(await resolveCover(mutation));
+      await remapBookId(mutation.bookId, created);
+      return created.id;
+    }
+    case "update":
+      await sendUpdate(
+        mutation.bookId,
+        await resolveCover(mutation),
+        mutation.base
+      );
+      return null;
+    case "delete":
+      await deleteBook(mutation.bookId);
+      return null;
+    case "note":
+      await addBookNote(mutation.bookId, toNoteInput(mutation));
+      return null;
+    case "note-update":
+      await updateBookNote(
+        mutation.bookId,
+        mutation.noteId,
+        toNoteInput(mutation)
+      );
+      return null;
+    case "note-delete":
+      await deleteBookNote(mutation.bookId, mutation.noteId);
+      return null;
+    case "session":
+      await addReadingSession(mutation.bookId, {
+        pagesRead: mutation.pagesRead,
+        durationMinutes: mutation.durationMinutes ?? null,
+        dateISO: mutation.dateISO,
+      });
+      return null;
+  }
+}
+
+async function runReplay(): Promise<ReplayResult> {
+  const createdIds: Record<string, string> = {};
+  const attempted = new Set<string>();
+  let synced = 0;
+
+  while (true) {
+    const items = await loadQueue();
+    // Mutations of a book wait behind its failed ones so they keep their
+    // order; other books go on syncing.
+    const blockedBooks = new Set<string>();
+    const next = items.find((item) => {
+      if (attempted.has(item.id) || blockedBooks.has(item.bookId)) {
+        blockedBooks.add(item.bookId);
+        return false;
+      }
+      return true;
+    });
+    if (!next) {
+      break;
+    }
+
+    attempted.add(next.id);
+    await updateMutation(next.id, { status: "syncing" });
+    try {
+      const createdId = await sendMutation(next);
+      if (createdId) {
+        createdIds[next.bookId] = createdId;
+      }
+      await discardMutation(next.id);
+      synced += 1;
+    } catch (error) {
+      console.error("Erreur de synchronisation d'une modification", error);
+      // Transient failures go back to the queue; the others need the user.
+      const retryable = isRetryableError(error);
+      await updateMutation(next.id, {
+        status: retryable ? "pending" : "failed",
+        attempts: next.attempts + 1,
+        lastError: (error as Error).message,
+      });
+      // The server or the network is down: later mutations would fail too.
+      if (retryable) {
+        break;
+      }
+    }
+  }
+
+  const remaining = await loadQueue();
+  return { synced, remaining: remaining.length, createdIds };
+}
+
+export async function replayMutations(): Promise<ReplayResult> {
+  if (!replaying) {
+    replaying = runReplay().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
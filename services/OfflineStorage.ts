@@ -1,17 +1,42 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
-import { Book } from "./BooksService";
+import { Book, BookPage, Note, mergeBookPages } from "./BooksService";
 
-const BOOKS_CACHE_KEY = "@lireo/books-cache";
+const STORAGE_PREFIX = "@lireo";
+const BOOKS_CACHE_KEY = "books-cache";
+const NOTES_CACHE_KEY = "notes-cache";
+
+let storageScope: string | null = null;
+
+export function setStorageScope(userId: string | null) {
+  storageScope = userId;
+}
+
+export function getStorageScope() {
+  return storageScope;
+}
+
+export function scopedKey(key: string) {
+  return `${STORAGE_PREFIX}/${storageScope ?? "anonymous"}/${key}`;
+}
 
 export type CachedBookList = {
   books: Book[];
   savedAt: number;
+  total: number | null;
+  loadedPages: number;
+  nextCursor: string | null;
+  seenIds: string[];
+};
+
+export type CachedNotes = {
+  notes: Note[];
+  savedAt: number;
 };
 
 export async function loadBooksCache(): Promise<CachedBookList | null> {
   try {
-    const raw = await AsyncStorage.getItem(BOOKS_CACHE_KEY);
+    const raw = await AsyncStorage.getItem(scopedKey(BOOKS_CACHE_KEY));
     if (!raw) {
       return null;
     }
@@ -23,6 +48,12 @@ export async function loadBooksCache(): Promise<CachedBookList | null> {
       books: parsed.books as Book[],
       savedAt:
         typeof parsed.savedAt === "number" ? parsed.savedAt : Date.now(),
+      total: typeof parsed.total === "number" ? parsed.total : null,
+      loadedPages:
+        typeof parsed.loadedPages === "number" ? parsed.loadedPages : 1,
+      nextCursor:
+        typeof parsed.nextCursor === "string" ? parsed.nextCursor : null,
+      seenIds: Array.isArray(parsed.seenIds) ? parsed.seenIds : [],
     };
   } catch (error) {
     console.error("Erreur de lecture du cache des livres", error);
@@ -30,15 +61,123 @@ export async function loadBooksCache(): Promise<CachedBookList | null> {
   }
 }
 
+async function writeBooksCache(payload: CachedBookList) {
+  try {
+    await AsyncStorage.setItem(
+      scopedKey(BOOKS_CACHE_KEY),
+      JSON.stringify(payload)
+    );
+  } catch (error) {
+    console.error("Erreur de sauvegarde du cache des livres", error);
+  }
+  return payload.savedAt;
+}
+
 export async function saveBooksCache(books: Book[]): Promise<number> {
-  const payload: CachedBookList = {
+  const cached = await loadBooksCache();
+  return writeBooksCache({
     books,
     savedAt: Date.now(),
-  };
+    total: cached?.total ?? null,
+    loadedPages: cached?.loadedPages ?? 1,
+    nextCursor: cached?.nextCursor ?? null,
+    seenIds: cached?.seenIds ?? [],
+  });
+}
+
+// Pages refresh the cached books without dropping the others, so the cache
+// keeps covering the library; books missing from a listing are only removed
+// once its last page has been loaded.
+export async function saveBooksCachePage(page: BookPage): Promise<number> {
+  const cached = await loadBooksCache();
+  const pageIds = page.items.map((book) => book.id);
+  const seenIds =
+    page.page > 1 ? [...(cached?.seenIds ?? []), ...pageIds] : pageIds;
+  const merged = mergeBookPages(cached?.books ?? [], page.items);
+  const seen = new Set(seenIds);
+  return writeBooksCache({
+    books: page.hasMore ? merged : merged.filter((book) => seen.has(book.id)),
+    savedAt: Date.now(),
+    total: page.total,
+    loadedPages: page.page,
+    nextCursor: page.hasMore ? page.nextCursor : null,
+    seenIds: page.hasMore ? seenIds : [],
+  });
+}
+
+// False while the cache holds fewer books than the server reported.
+export function isBooksCacheComplete(cached: CachedBookList) {
+  return cached.total === null || cached.books.length >= cached.total;
+}
+
+export async function updateCachedBook(book: Book): Promise<number | null> {
+  const cached = await loadBooksCache();
+  if (!cached) {
+    return null;
+  }
+  return writeBooksCache({
+    ...cached,
+    books: mergeBookPages(cached.books, [book]),
+    savedAt: Date.now(),
+  });
+}
+
+export async function loadNotesCache(): Promise<CachedNotes | null> {
   try {
-    await AsyncStorage.setItem(BOOKS_CACHE_KEY, JSON.stringify(payload));
+    const raw = await AsyncStorage.getItem(scopedKey(NOTES_CACHE_KEY));
+    if (!raw) {
+      return null;
+    }
+    const parsed = JSON.parse(raw) as Partial<CachedNotes>;
+    if (!parsed || !Array.isArray(parsed.notes)) {
+      return null;
+    }
+    return {
+      notes: parsed.notes as Note[],
+      savedAt:
+        typeof parsed.savedAt === "number" ? parsed.savedAt : Date.now(),
+    };
   } catch (error) {
-    console.error("Erreur de sauvegarde du cache des livres", error);
+    console.error("Erreur de lecture du cache des notes", error);
+    return null;
   }
-  return payload.savedAt;
+}
+
+export async function saveNotesCache(notes: Note[]): Promise<number> {
+  const savedAt = Date.now();
+  try {
+    await AsyncStorage.setItem(
+      scopedKey(NOTES_CACHE_KEY),
+      JSON.stringify({ notes, savedAt })
+    );
+  } catch (error) {
+    console.error("Erreur de sauvegarde du cache des notes", error);
+  }
+  return savedAt;
+}
+
+export async function updateCachedNote(note: Note): Promise<number | null> {
+  const cached = await loadNotesCache();
+  if (!cached) {
+    return null;
+  }
+  return saveNotesCache(
+    cached.notes.map((item) =>
+      item.id === note.id ? { ...item, ...note } : item
+    )
+  );
+}
+
+export async function removeCachedNote(noteId: string): Promise<number | null> {
+  const cached = await loadNotesCache();
+  if (!cached) {
+    return null;
+  }
+  return saveNotesCache(cached.notes.filter((item) => item.id !== noteId));
+}
+
+export async function saveBookNotesCache(bookId: string, notes: Note[]) {
+  const cached = await loadNotesCache();
+  const others = (cached?.notes ?? []).filter((note) => note.bookId !== bookId);
+  return saveNotesCache([...notes, ...others]);
 }
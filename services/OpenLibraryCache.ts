@@ -0,0 +1,81 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const CACHE_PREFIX = "@lireo/openlibrary/";
+const INDEX_KEY = `${CACHE_PREFIX}index`;
+const MAX_ENTRIES = 150;
+
+let pendingIndexWrite: Promise<unknown> = Promise.resolve();
+
+export type CachedResponse<T> = {
+  data: T;
+  savedAt: number;
+};
+
+type CacheIndex = Record<string, number>;
+
+function entryKey(path: string) {
+  return `${CACHE_PREFIX}entry:${path}`;
+}
+
+// Index updates read then rewrite the whole index: running them one at a time
+// keeps parallel requests from dropping each other's entries.
+function withIndexLock<T>(task: () => Promise<T>): Promise<T> {
+  const result = pendingIndexWrite.then(task);
+  pendingIndexWrite = result.catch(() => undefined);
+  return result;
+}
+
+async function loadIndex(): Promise<CacheIndex> {
+  try {
+    const raw = await AsyncStorage.getItem(INDEX_KEY);
+    const parsed = raw ? (JSON.parse(raw) as CacheIndex) : null;
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch (error) {
+    console.error("Erreur de lecture de l'index OpenLibrary", error);
+    return {};
+  }
+}
+
+export async function readOpenLibraryCache<T>(
+  path: string
+): Promise<CachedResponse<T> | null> {
+  try {
+    const raw = await AsyncStorage.getItem(entryKey(path));
+    if (!raw) {
+      return null;
+    }
+    const parsed = JSON.parse(raw) as Partial<CachedResponse<T>>;
+    if (!parsed || typeof parsed.savedAt !== "number" || !("data" in parsed)) {
+      return null;
+    }
+    return { data: parsed.data as T, savedAt: parsed.savedAt };
+  } catch (error) {
+    console.error("Erreur de lecture du cache OpenLibrary", error);
+    return null;
+  }
+}
+
+// Oldest entries are evicted once the cache holds more than MAX_ENTRIES.
+export async function writeOpenLibraryCache<T>(path: string, data: T) {
+  const savedAt = Date.now();
+  try {
+    await AsyncStorage.setItem(
+      entryKey(path),
+      JSON.stringify({ data, savedAt })
+    );
+    await withIndexLock(async () => {
+      const index = await loadIndex();
+      index[path] = savedAt;
+      const paths = Object.keys(index).sort((a, b) => index[b] - index[a]);
+      const evicted = paths.slice(MAX_ENTRIES);
+      if (evicted.length > 0) {
+        await AsyncStorage.multiRemove(evicted.map(entryKey));
+        evicted.forEach((evictedPath) => delete index[evictedPath]);
+      }
+      await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(index));
+    });
+  } catch (error) {
+    console.error("Erreur de sauvegarde du cache OpenLibrary", error);
+  }
+  return savedAt;
+}
@@ -1,50 +1,495 @@
+import {
+  ApiError,
+  CanceledError,
+  NetworkError,
+  NotFoundError,
+  isCanceledError,
+  isNetworkError,
+  isRetryableError,
+  parseApiError,
+} from "./ApiError";
+import {
+  readOpenLibraryCache,
+  writeOpenLibraryCache,
+} from "./OpenLibraryCache";
+
 const OPEN_LIBRARY_API = "https://openlibrary.org";
+const OPEN_LIBRARY_COVERS = "https://covers.openlibrary.org";
+const SEARCH_FIELDS = [
+  "key",
+  "title",
+  "subtitle",
+  "author_name",
+  "first_publish_year",
+  "publisher",
+  "cover_i",
+  "isbn",
+  "subject",
+  "edition_count",
+].join(",");
 
 type OpenLibraryDoc = {
+  key?: string;
+  title?: string;
+  subtitle?: string;
+  author_name?: string[];
+  first_publish_year?: number;
+  publisher?: string[];
+  cover_i?: number;
+  isbn?: string[];
+  subject?: string[];
   edition_count?: number;
 };
 
 type OpenLibraryResponse = {
   docs?: OpenLibraryDoc[];
-  numFound?: number;
 };
 
-export async function fetchEditionCountByTitle(
-  title: string
-): Promise<number | null> {
-  const query = encodeURIComponent(title);
-  let response: Response;
+type OpenLibraryOptions = {
+  signal?: AbortSignal;
+  // Resolves from the local cache only, whatever its age.
+  cacheOnly?: boolean;
+};
+
+type RequestPolicy = OpenLibraryOptions & {
+  ttl: number;
+};
+
+export type OpenLibraryCandidate = {
+  key: string;
+  title: string;
+  authors: string[];
+  firstPublishYear: number | null;
+  publishers: string[];
+  coverId: number | null;
+  isbns: string[];
+  subjects: string[];
+  editionCount: number | null;
+};
 
+export type CoverSize = "S" | "M" | "L";
+
+export function getCoverUrl(coverId: number, size: CoverSize = "M") {
+  return `${OPEN_LIBRARY_COVERS}/b/id/${coverId}-${size}.jpg`;
+}
+
+export function getIsbnCoverUrl(isbn: string, size: CoverSize = "L") {
+  return `${OPEN_LIBRARY_COVERS}/b/isbn/${isbn}-${size}.jpg`;
+}
+
+// The covers API serves a blank image unless told to answer 404 instead.
+export async function findCoverByIsbn(isbn: string) {
+  const url = getIsbnCoverUrl(isbn);
+  let response: Response;
   try {
-    response = await fetch(
-      `${OPEN_LIBRARY_API}/search.json?title=${query}&limit=1`
+    response = await fetch(`${url}?default=false`, { method: "HEAD" });
+  } catch (error) {
+    console.error("Erreur reseau OpenLibrary", error);
+    throw new NetworkError("La recherche OpenLibrary a echoue.");
+  }
+  return response.ok ? url : null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const SEARCH_TTL_MS = 24 * HOUR_MS;
+const RECORD_TTL_MS = 7 * 24 * HOUR_MS;
+const MIN_REQUEST_INTERVAL_MS = 400;
+
+const inflightRequests = new Map<string, Promise<unknown>>();
+let nextRequestSlot = 0;
+
+// Spaces out network calls so bursts of lookups stay polite with the API.
+function waitForRequestSlot() {
+  const now = Date.now();
+  const wait = Math.max(0, nextRequestSlot - now);
+  nextRequestSlot = Math.max(now, nextRequestSlot) + MIN_REQUEST_INTERVAL_MS;
+  return new Promise<void>((resolve) => setTimeout(resolve, wait));
+}
+
+function withSignal<T>(promise: Promise<T>, signal?: AbortSignal) {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(new CanceledError());
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new CanceledError());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
     );
+  });
+}
+
+async function fetchOpenLibrary<T>(path: string): Promise<T> {
+  await waitForRequestSlot();
+  let response: Response;
+
+  try {
+    response = await fetch(`${OPEN_LIBRARY_API}${path}`);
   } catch (error) {
     console.error("Erreur reseau OpenLibrary", error);
-    throw new Error("La recherche OpenLibrary a echoue.");
+    throw new NetworkError("La recherche OpenLibrary a echoue.");
+  }
+
+  if (response.status === 429) {
+    throw new ApiError("OpenLibrary limite temporairement les recherches.", {
+      status: 429,
+      retryable: true,
+    });
   }
 
   if (!response.ok) {
-    throw new Error("La recherche OpenLibrary a echoue.");
+    throw await parseApiError(response);
   }
 
+  let data: T;
   try {
-    const data = (await response.json()) as OpenLibraryResponse;
-    const firstDoc = data.docs?.find(
-      (doc) => typeof doc.edition_count === "number"
-    );
+    data = (await response.json()) as T;
+  } catch (error) {
+    console.error("Erreur de parsing OpenLibrary", error);
+    throw new ApiError("La recherche OpenLibrary a echoue.", {
+      status: response.status,
+    });
+  }
+  await writeOpenLibraryCache(path, data);
+  return data;
+}
 
-    if (firstDoc && typeof firstDoc.edition_count === "number") {
-      return firstDoc.edition_count;
+// Fresh cache entries skip the network; stale ones are only used when
+// OpenLibrary cannot be reached or fails temporarily (5xx, 429).
+async function requestOpenLibrary<T>(
+  path: string,
+  policy: RequestPolicy
+): Promise<T> {
+  const cached = await readOpenLibraryCache<T>(path);
+  if (policy.cacheOnly) {
+    if (!cached) {
+      throw new NotFoundError("Aucune donnee OpenLibrary en cache.");
     }
+    return cached.data;
+  }
+  if (cached && Date.now() - cached.savedAt < policy.ttl) {
+    return cached.data;
+  }
+
+  let request = inflightRequests.get(path) as Promise<T> | undefined;
+  if (!request) {
+    request = fetchOpenLibrary<T>(path).finally(() => {
+      inflightRequests.delete(path);
+    });
+    inflightRequests.set(path, request);
+  }
 
-    if (typeof data.numFound === "number") {
-      return data.numFound;
+  try {
+    return await withSignal(request, policy.signal);
+  } catch (error) {
+    if (cached && (isNetworkError(error) || isRetryableError(error))) {
+      return cached.data;
     }
+    throw error;
+  }
+}
 
+function toCandidate(doc: OpenLibraryDoc): OpenLibraryCandidate | null {
+  if (!doc.key || !doc.title) {
+    return null;
+  }
+  return {
+    key: doc.key,
+    title: doc.subtitle ? `${doc.title} : ${doc.subtitle}` : doc.title,
+    authors: doc.author_name ?? [],
+    firstPublishYear:
+      typeof doc.first_publish_year === "number"
+        ? doc.first_publish_year
+        : null,
+    publishers: doc.publisher ?? [],
+    coverId: typeof doc.cover_i === "number" ? doc.cover_i : null,
+    isbns: doc.isbn ?? [],
+    subjects: doc.subject ?? [],
+    editionCount:
+      typeof doc.edition_count === "number" ? doc.edition_count : null,
+  };
+}
+
+export async function searchBooks(
+  query: string,
+  options: OpenLibraryOptions & { limit?: number } = {}
+): Promise<OpenLibraryCandidate[]> {
+  const params = new URLSearchParams({
+    q: query,
+    fields: SEARCH_FIELDS,
+    limit: String(options.limit ?? 8),
+  });
+  const data = await requestOpenLibrary<OpenLibraryResponse>(
+    `/search.json?${params.toString()}`,
+    { ...options, ttl: SEARCH_TTL_MS }
+  );
+  return (data.docs ?? [])
+    .map(toCandidate)
+    .filter((candidate): candidate is OpenLibraryCandidate =>
+      Boolean(candidate)
+    );
+}
+
+// Prefers ISBN-13, which is what barcodes and most catalogues use.
+export function pickIsbn(isbns: string[]) {
+  const valid = isbns
+    .map((isbn) => normalizeIsbn(isbn))
+    .filter((isbn): isbn is string => Boolean(isbn));
+  return valid.find((isbn) => isbn.length === 13) ?? valid[0] ?? null;
+}
+
+export type IsbnBook = {
+  isbn: string;
+  title: string;
+  authors: string[];
+  publishers: string[];
+  year: number | null;
+  coverUrl: string | null;
+};
+
+type OpenLibraryBookData = {
+  title?: string;
+  subtitle?: string;
+  authors?: { name?: string }[];
+  publishers?: { name?: string }[];
+  publish_date?: string;
+  cover?: { small?: string; medium?: string; large?: string };
+};
+
+function isValidIsbn10(isbn: string) {
+  const sum = isbn.split("").reduce((total, char, index) => {
+    const value = char === "X" ? 10 : Number(char);
+    return total + value * (10 - index);
+  }, 0);
+  return sum % 11 === 0;
+}
+
+function isValidIsbn13(isbn: string) {
+  const sum = isbn.split("").reduce((total, char, index) => {
+    return total + Number(char) * (index % 2 === 0 ? 1 : 3);
+  }, 0);
+  return sum % 10 === 0;
+}
+
+// Returns the digits of a valid ISBN-10 or ISBN-13, or null.
+export function normalizeIsbn(value: string) {
+  const isbn = value.toUpperCase().replace(/[^0-9X]/g, "");
+  if (/^\d{9}[\dX]$/.test(isbn) && isValidIsbn10(isbn)) {
+    return isbn;
+  }
+  if (/^97[89]\d{10}$/.test(isbn) && isValidIsbn13(isbn)) {
+    return isbn;
+  }
+  return null;
+}
+
+function parseYear(value?: string) {
+  const match = value?.match(/\d{4}/);
+  return match ? Number(match[0]) : null;
+}
+
+export async function fetchBookByIsbn(
+  isbn: string,
+  options: OpenLibraryOptions = {}
+): Promise<IsbnBook | null> {
+  const key = `ISBN:${isbn}`;
+  const params = new URLSearchParams({
+    bibkeys: key,
+    format: "json",
+    jscmd: "data",
+  });
+  const data = await requestOpenLibrary<
+    Record<string, OpenLibraryBookData | undefined>
+  >(`/api/books?${params.toString()}`, { ...options, ttl: RECORD_TTL_MS });
+
+  const book = data[key];
+  if (!book?.title) {
+    return null;
+  }
+  return {
+    isbn,
+    title: book.subtitle ? `${book.title} : ${book.subtitle}` : book.title,
+    authors: (book.authors ?? [])
+      .map((author) => author.name)
+      .filter((name): name is string => Boolean(name)),
+    publishers: (book.publishers ?? [])
+      .map((publisher) => publisher.name)
+      .filter((name): name is string => Boolean(name)),
+    year: parseYear(book.publish_date),
+    coverUrl: book.cover?.large ?? book.cover?.medium ?? null,
+  };
+}
+
+type OpenLibraryText = string | { value?: string };
+
+type OpenLibraryWorkResponse = {
+  key?: string;
+  title?: string;
+  description?: OpenLibraryText;
+  subjects?: string[];
+  first_publish_date?: string;
+  authors?: { author?: { key?: string } }[];
+};
+
+type OpenLibraryEditionResponse = {
+  key?: string;
+  title?: string;
+  publishers?: string[];
+  languages?: { key?: string }[];
+  publish_date?: string;
+  isbn_13?: string[];
+  isbn_10?: string[];
+};
+
+type OpenLibraryEditionsResponse = {
+  size?: number;
+  entries?: OpenLibraryEditionResponse[];
+};
+
+type OpenLibraryAuthorResponse = {
+  key?: string;
+  name?: string;
+  bio?: OpenLibraryText;
+  birth_date?: string;
+  death_date?: string;
+};
+
+export type OpenLibraryEdition = {
+  key: string;
+  title: string;
+  publishers: string[];
+  languages: string[];
+  publishDate: string | null;
+  isbn: string | null;
+};
+
+export type OpenLibraryAuthor = {
+  key: string;
+  name: string;
+  bio: string | null;
+  birthDate: string | null;
+  deathDate: string | null;
+};
+
+export type OpenLibraryWork = {
+  key: string;
+  title: string;
+  description: string | null;
+  subjects: string[];
+  firstPublishDate: string | null;
+  editionCount: number;
+  editions: OpenLibraryEdition[];
+  author: OpenLibraryAuthor | null;
+};
+
+const LANGUAGE_LABELS: Record<string, string> = {
+  fre: "Francais",
+  eng: "Anglais",
+  ger: "Allemand",
+  spa: "Espagnol",
+  ita: "Italien",
+  por: "Portugais",
+  dut: "Neerlandais",
+  jpn: "Japonais",
+};
+
+function readText(value?: OpenLibraryText) {
+  const text = typeof value === "string" ? value : value?.value;
+  return text?.trim() ? text.trim() : null;
+}
+
+function lastSegment(key: string) {
+  return key.split("/").filter(Boolean).pop() ?? key;
+}
+
+export function getWorkUrl(workKey: string) {
+  return `${OPEN_LIBRARY_API}/works/${lastSegment(workKey)}`;
+}
+
+function toEdition(entry: OpenLibraryEditionResponse): OpenLibraryEdition {
+  return {
+    key: entry.key ?? "",
+    title: entry.title ?? "Edition sans titre",
+    publishers: entry.publishers ?? [],
+    languages: (entry.languages ?? [])
+      .map((language) => (language.key ? lastSegment(language.key) : ""))
+      .filter(Boolean)
+      .map((code) => LANGUAGE_LABELS[code] ?? code),
+    publishDate: entry.publish_date ?? null,
+    isbn: pickIsbn([...(entry.isbn_13 ?? []), ...(entry.isbn_10 ?? [])]),
+  };
+}
+
+async function fetchAuthor(authorKey: string, options: OpenLibraryOptions) {
+  const data = await requestOpenLibrary<OpenLibraryAuthorResponse>(
+    `/authors/${lastSegment(authorKey)}.json`,
+    { ...options, ttl: RECORD_TTL_MS }
+  );
+  return {
+    key: authorKey,
+    name: data.name ?? "Auteur inconnu",
+    bio: readText(data.bio),
+    birthDate: data.birth_date ?? null,
+    deathDate: data.death_date ?? null,
+  };
+}
+
+export async function fetchWorkDetails(
+  workKey: string,
+  options: OpenLibraryOptions = {}
+): Promise<OpenLibraryWork> {
+  const workId = lastSegment(workKey);
+  const [work, editions] = await Promise.all([
+    requestOpenLibrary<OpenLibraryWorkResponse>(`/works/${workId}.json`, {
+      ...options,
+      ttl: RECORD_TTL_MS,
+    }),
+    requestOpenLibrary<OpenLibraryEditionsResponse>(
+      `/works/${workId}/editions.json?limit=10`,
+      { ...options, ttl: RECORD_TTL_MS }
+    ),
+  ]);
+  const authorKey = work.authors?.find((entry) => entry.author?.key)?.author
+    ?.key;
+  let author: OpenLibraryAuthor | null = null;
+  if (authorKey) {
+    try {
+      author = await fetchAuthor(authorKey, options);
+    } catch (error) {
+      if (isCanceledError(error)) {
+        throw error;
+      }
+      if (!options.cacheOnly) {
+        console.error("Erreur de chargement de l'auteur OpenLibrary", error);
+      }
+    }
+  }
+  return {
+    key: `/works/${workId}`,
+    title: work.title ?? "Oeuvre sans titre",
+    description: readText(work.description),
+    subjects: work.subjects ?? [],
+    firstPublishDate: work.first_publish_date ?? null,
+    editionCount: editions.size ?? editions.entries?.length ?? 0,
+    editions: (editions.entries ?? []).map(toEdition),
+    author,
+  };
+}
+
+export async function getCachedWorkDetails(workKey: string) {
+  try {
+    return await fetchWorkDetails(workKey, { cacheOnly: true });
+  } catch {
     return null;
-  } catch (error) {
-    console.error("Erreur de parsing OpenLibrary", error);
-    throw new Error("La recherche OpenLibrary a echoue.");
   }
 }
@@ -0,0 +1,63 @@
+import { Note, NoteInput, NoteKind } from "./BooksService";
+
+export type NoteFilter = {
+  kind?: NoteKind | null;
+  tag?: string | null;
+};
+
+export const NOTE_KINDS: { kind: NoteKind; label: string }[] = [
+  { kind: "quote", label: "Citation" },
+  { kind: "thought", label: "Reflexion" },
+  { kind: "summary", label: "Resume" },
+];
+
+export function getNoteKindLabel(kind?: NoteKind | null) {
+  return NOTE_KINDS.find((item) => item.kind === kind)?.label ?? null;
+}
+
+export function parseTags(value: string) {
+  const tags = value
+    .split(/[,;\s]+/)
+    .map((tag) => tag.replace(/^#+/, "").trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+export function formatTags(tags?: string[]) {
+  return (tags ?? []).join(", ");
+}
+
+export function formatPageRange(note: Pick<Note, "pageStart" | "pageEnd">) {
+  const { pageStart, pageEnd } = note;
+  if (!pageStart && !pageEnd) {
+    return null;
+  }
+  if (pageStart && pageEnd && pageEnd !== pageStart) {
+    return `p. ${pageStart}-${pageEnd}`;
+  }
+  return `p. ${pageStart ?? pageEnd}`;
+}
+
+export function toNoteInput(note: NoteInput): NoteInput {
+  return {
+    content: note.content,
+    kind: note.kind ?? null,
+    pageStart: note.pageStart ?? null,
+    pageEnd: note.pageEnd ?? null,
+    tags: note.tags ?? [],
+  };
+}
+
+export function collectTags(notes: Note[]) {
+  const tags = new Set<string>();
+  notes.forEach((note) => note.tags?.forEach((tag) => tags.add(tag)));
+  return Array.from(tags).sort((a, b) => a.localeCompare(b, "fr"));
+}
+
+export function filterNotes(notes: Note[], filter: NoteFilter) {
+  return notes.filter(
+    (note) =>
+      (!filter.kind || note.kind === filter.kind) &&
+      (!filter.tag || Boolean(note.tags?.includes(filter.tag)))
+  );
+}
@@ -0,0 +1,81 @@
+import {
+  Book,
+  BookPayload,
+  ReadingSessionInput,
+  getReadingStatus,
+} from "./BooksService";
+import { getStatusChanges } from "./ReadingStatus";
+
+export type ReadingProgress = {
+  currentPage: number;
+  totalPages: number;
+  ratio: number;
+};
+
+export function getReadingProgress(
+  book: Pick<Book, "currentPage" | "totalPages" | "read" | "status">
+): ReadingProgress | null {
+  const totalPages = book.totalPages ?? 0;
+  if (totalPages <= 0) {
+    return null;
+  }
+  const currentPage =
+    getReadingStatus(book) === "read"
+      ? totalPages
+      : Math.min(Math.max(book.currentPage ?? 0, 0), totalPages);
+  return { currentPage, totalPages, ratio: currentPage / totalPages };
+}
+
+// Reaching the last page marks the book as read.
+export function withAutoRead<T extends Partial<BookPayload>>(
+  payload: T,
+  now = new Date()
+): T {
+  const { currentPage, totalPages } = payload;
+  if (
+    typeof currentPage === "number" &&
+    typeof totalPages === "number" &&
+    totalPages > 0 &&
+    currentPage >= totalPages
+  ) {
+    return {
+      ...payload,
+      currentPage: totalPages,
+      read: true,
+      status: "read",
+      finishedAt: payload.finishedAt ?? now.toISOString(),
+    };
+  }
+  return payload;
+}
+
+// Dates come from the session, which may have been logged after the fact.
+export function getSessionChanges(
+  book: Book,
+  session: Pick<ReadingSessionInput, "pagesRead" | "dateISO">
+): Partial<BookPayload> {
+  const totalPages = book.totalPages ?? null;
+  const nextPage = (book.currentPage ?? 0) + session.pagesRead;
+  const status = getReadingStatus(book);
+  const date = new Date(session.dateISO);
+  return withAutoRead(
+    {
+      ...(status === "reading" ? {} : getStatusChanges(book, "reading", date)),
+      totalPages,
+      currentPage: totalPages ? Math.min(nextPage, totalPages) : nextPage,
+    },
+    date
+  );
+}
+
+export function formatDuration(minutes?: number | null) {
+  if (!minutes) {
+    return null;
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) {
+    return `${rest} min`;
+  }
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+}
@@ -0,0 +1,85 @@
+import {
+  Book,
+  BookPayload,
+  BooksStats,
+  ReadingStatus,
+  getReadingStatus,
+} from "./BooksService";
+
+export const READING_STATUSES: { value: ReadingStatus; label: string }[] = [
+  { value: "want-to-read", label: "A lire" },
+  { value: "reading", label: "En cours" },
+  { value: "read", label: "Lu" },
+  { value: "abandoned", label: "Abandonne" },
+];
+
+// Two targets per status keeps the quick picker within Android's three
+// alert buttons; the detail screen offers every status.
+export const STATUS_TRANSITIONS: Record<ReadingStatus, ReadingStatus[]> = {
+  "want-to-read": ["reading", "read"],
+  reading: ["read", "abandoned"],
+  read: ["reading", "want-to-read"],
+  abandoned: ["reading", "want-to-read"],
+};
+
+export function getStatusLabel(status: ReadingStatus) {
+  return (
+    READING_STATUSES.find((option) => option.value === status)?.label ?? status
+  );
+}
+
+export function getStatusChanges(
+  book: Pick<Book, "read" | "status" | "startedAt">,
+  next: ReadingStatus,
+  now = new Date()
+): Partial<BookPayload> {
+  const today = now.toISOString();
+  const changes: Partial<BookPayload> = {
+    status: next,
+    read: next === "read",
+  };
+  if (next === "want-to-read") {
+    changes.startedAt = null;
+    changes.finishedAt = null;
+  } else if (next === "reading") {
+    changes.startedAt =
+      getReadingStatus(book) === "reading" && book.startedAt
+        ? book.startedAt
+        : today;
+    changes.finishedAt = null;
+  } else {
+    changes.startedAt = book.startedAt ?? today;
+    changes.finishedAt = today;
+  }
+  return changes;
+}
+
+export function getStatusCounts(
+  stats: BooksStats
+): Record<ReadingStatus, number> {
+  const counts = stats.statusCounts ?? {
+    read: stats.readCount,
+    "want-to-read": stats.unreadCount,
+  };
+  return {
+    "want-to-read": counts["want-to-read"] ?? 0,
+    reading: counts.reading ?? 0,
+    read: counts.read ?? 0,
+    abandoned: counts.abandoned ?? 0,
+  };
+}
+
+export function formatStatusDate(value?: string | null) {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return null;
+  }
+  return date.toLocaleDateString("fr-FR", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+}
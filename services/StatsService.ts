@@ -0,0 +1,96 @@
+import { RequestOptions, getApiClient } from "./ApiClient";
+
+export type StatsPeriod = "month" | "year" | "all";
+
+export type StatsBucket = {
+  key: string;
+  value: number;
+};
+
+export type RankedEntry = {
+  name: string;
+  count: number;
+};
+
+export type StatsTimeline = {
+  period: StatsPeriod;
+  booksFinished: StatsBucket[];
+  pagesRead: StatsBucket[];
+  ratings: StatsBucket[];
+  publicationYears: StatsBucket[];
+  topAuthors: RankedEntry[];
+  topThemes: RankedEntry[];
+};
+
+type StatsTimelineResponse = Partial<Omit<StatsTimeline, "period">> & {
+  period?: StatsPeriod;
+};
+
+export const STATS_PERIODS: { value: StatsPeriod; label: string }[] = [
+  { value: "month", label: "Ce mois" },
+  { value: "year", label: "Cette annee" },
+  { value: "all", label: "Depuis le debut" },
+];
+
+const MONTH_LABELS = [
+  "janv.",
+  "fevr.",
+  "mars",
+  "avr.",
+  "mai",
+  "juin",
+  "juil.",
+  "aout",
+  "sept.",
+  "oct.",
+  "nov.",
+  "dec.",
+];
+
+function toBuckets(buckets?: StatsBucket[] | null) {
+  return (buckets ?? []).map((bucket) => ({
+    key: String(bucket.key),
+    value: Number(bucket.value) || 0,
+  }));
+}
+
+export async function getStatsTimeline(
+  period: StatsPeriod,
+  options?: RequestOptions
+): Promise<StatsTimeline> {
+  const response = await getApiClient().request<StatsTimelineResponse>(
+    `/stats/timeline?period=${period}`,
+    options
+  );
+  return {
+    period: response.period ?? period,
+    booksFinished: toBuckets(response.booksFinished),
+    pagesRead: toBuckets(response.pagesRead),
+    ratings: toBuckets(response.ratings),
+    publicationYears: toBuckets(response.publicationYears),
+    topAuthors: response.topAuthors ?? [],
+    topThemes: response.topThemes ?? [],
+  };
+}
+
+// Bucket keys are ISO-like: 2026-03-14 (day), 2026-W11 (week), 2026-03
+// (month), 2026 or 1990s (year, decade).
+export function formatBucketLabel(key: string) {
+  const week = key.match(/^\d{4}-W(\d{1,2})$/);
+  if (week) {
+    return `S${Number(week[1])}`;
+  }
+  const day = key.match(/^\d{4}-(\d{2})-(\d{2})$/);
+  if (day) {
+    return `${Number(day[2])}/${Number(day[1])}`;
+  }
+  const month = key.match(/^(\d{4})-(\d{2})$/);
+  if (month) {
+    return MONTH_LABELS[Number(month[2]) - 1] ?? key;
+  }
+  return key;
+}
+
+export function hasBucketValues(buckets: StatsBucket[]) {
+  return buckets.some((bucket) => bucket.value > 0);
+}
@@ -0,0 +1,133 @@
+import { RequestOptions, getApiClient } from "./ApiClient";
+import { Book, getBookThemes } from "./BooksService";
+import { normalizeText } from "./LocalSearch";
+import { updateCachedBooks } from "./MutationQueue";
+import { loadBooksCache } from "./OfflineStorage";
+
+export type Theme = {
+  name: string;
+  count: number;
+};
+
+type ThemeResponse =
+  | string
+  | {
+      name: string;
+      count?: number | null;
+      bookCount?: number | null;
+    };
+
+function themePath(name: string) {
+  return `/themes/${encodeURIComponent(name)}`;
+}
+
+function sortThemes(themes: Theme[]) {
+  return [...themes].sort((a, b) => a.name.localeCompare(b.name, "fr"));
+}
+
+export function normalizeThemeName(value: string) {
+  return value.trim().replace(/\s+/g, " ");
+}
+
+export function isSameTheme(a: string, b: string) {
+  return normalizeText(a) === normalizeText(b);
+}
+
+export function addTheme(themes: string[], value: string) {
+  const name = normalizeThemeName(value);
+  if (!name || themes.some((theme) => isSameTheme(theme, name))) {
+    return themes;
+  }
+  return [...themes, name];
+}
+
+export function collectThemes(books: Book[]): Theme[] {
+  const counts = new Map<string, Theme>();
+  books.forEach((book) => {
+    getBookThemes(book).forEach((name) => {
+      const key = normalizeText(name);
+      const existing = counts.get(key);
+      if (existing) {
+        existing.count += 1;
+      } else {
+        counts.set(key, { name, count: 1 });
+      }
+    });
+  });
+  return sortThemes(Array.from(counts.values()));
+}
+
+export async function getThemes(options?: RequestOptions) {
+  const response = await getApiClient().request<ThemeResponse[]>(
+    "/themes",
+    options
+  );
+  return sortThemes(
+    response.map((item) =>
+      typeof item === "string"
+        ? { name: item, count: 0 }
+        : { name: item.name, count: item.count ?? item.bookCount ?? 0 }
+    )
+  );
+}
+
+export async function getCachedThemes() {
+  const cached = await loadBooksCache();
+  return collectThemes(cached?.books ?? []);
+}
+
+// Keeps the offline copy consistent with a taxonomy change on the server.
+async function rewriteCachedThemes(transform: (themes: string[]) => string[]) {
+  await updateCachedBooks((books) =>
+    books.map((book) => {
+      const themes = transform(getBookThemes(book));
+      return { ...book, themes, theme: themes[0] };
+    })
+  );
+}
+
+export async function renameTheme(name: string, nextName: string) {
+  const target = normalizeThemeName(nextName);
+  await getApiClient().request<undefined>(themePath(name), {
+    method: "PUT",
+    body: JSON.stringify({ name: target }),
+    expectsBody: false,
+  });
+  await rewriteCachedThemes((themes) =>
+    themes.reduce<string[]>(
+      (next, theme) => addTheme(next, isSameTheme(theme, name) ? target : theme),
+      []
+    )
+  );
+  return target;
+}
+
+export async function mergeThemes(sources: string[], target: string) {
+  const name = normalizeThemeName(target);
+  await getApiClient().request<undefined>("/themes/merge", {
+    method: "POST",
+    body: JSON.stringify({ sources, target: name }),
+    expectsBody: false,
+  });
+  await rewriteCachedThemes((themes) =>
+    themes.reduce<string[]>(
+      (next, theme) =>
+        addTheme(
+          next,
+          sources.some((source) => isSameTheme(source, theme)) ? name : theme
+        ),
+      []
+    )
+  );
+  return name;
+}
+
+export async function deleteTheme(name: string) {
+  await getApiClient().request<undefined>(themePath(name), {
+    method: "DELETE",
+    expectsBody: false,
+  });
+  await rewriteCachedThemes((themes) =>
+    themes.filter((theme) => !isSameTheme(theme, name))
+  );
+}
@@ -0,0 +1,63 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as SecureStore from "expo-secure-store";
+import { Platform } from "react-native";
+
+const SESSION_KEY = "lireo.session";
+
+export type StoredSession = {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: number | null;
+  user: {
+    id: string;
+    email: string;
+    name?: string | null;
+  };
+};
+
+// SecureStore has no web implementation: fall back to AsyncStorage there.
+const useSecureStore = Platform.OS !== "web";
+
+export async function loadStoredSession(): Promise<StoredSession | null> {
+  try {
+    const raw = useSecureStore
+      ? await SecureStore.getItemAsync(SESSION_KEY)
+      : await AsyncStorage.getItem(SESSION_KEY);
+    if (!raw) {
+      return null;
+    }
+    const parsed = JSON.parse(raw) as Partial<StoredSession>;
+    if (!parsed?.accessToken || !parsed.user?.id) {
+      return null;
+    }
+    return parsed as StoredSession;
+  } catch (error) {
+    console.error("Erreur de lecture de la session", error);
+    return null;
+  }
+}
+
+export async function saveStoredSession(session: StoredSession) {
+  try {
+    const raw = JSON.stringify(session);
+    if (useSecureStore) {
+      await SecureStore.setItemAsync(SESSION_KEY, raw);
+    } else {
+      await AsyncStorage.setItem(SESSION_KEY, raw);
+    }
+  } catch (error) {
+    console.error("Erreur de sauvegarde de la session", error);
+  }
+}
+
+export async function clearStoredSession() {
+  try {
+    if (useSecureStore) {
+      await SecureStore.deleteItemAsync(SESSION_KEY);
+    } else {
+      await AsyncStorage.removeItem(SESSION_KEY);
+    }
+  } catch (error) {
+    console.error("Erreur de suppression de la session", error);
+  }
+}